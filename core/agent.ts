@@ -0,0 +1,789 @@
+/**
+ * core/agent.ts
+ *
+ * The agent loop, written once.
+ *
+ *   User -> Model -> [Tool -> Result] -> Text Response
+ *                    ^___________|
+ *
+ * Everything that differs between v0, v1 and v2 is configuration:
+ * the system prompt, the tools in the registry, and (for v2) a TodoManager
+ * plus a reminder hook. The loop itself — call the model, run the tools
+ * it asked for, feed the results back, stop on finish_reason — lives here.
+ * Which API answers is up to the Provider (see provider.ts).
+ *
+ * Embedding in a script:
+ *
+ *   const agent = new Agent({
+ *       model: 'gpt-4o',
+ *       systemPrompt: 'You are a coding agent.',
+ *       tools: new ToolRegistry(basicTools()),
+ *   });
+ *   const answer = await agent.send('List the TypeScript files');
+ */
+
+import type { ChatCompletionContentPart, ChatCompletionMessageFunctionToolCall, ChatCompletionMessageParam, ChatCompletionToolMessageParam } from 'openai/resources';
+import { trapInterrupt } from './background';
+import { renderRestored, type CheckpointStore } from './checkpoints';
+import type { HookRunner } from './hooks';
+import type { McpManager } from './mcp';
+import type { AgentEvent } from './output';
+import { withInstructions, type InstructionSource } from './instructions';
+import { matchesPattern, type PermissionManager } from './permissions';
+import type { Sandbox } from './sandbox';
+import type { Session } from './session';
+import type { Todo, TodoManager } from './todos';
+import type { ToolImage, ToolRegistry } from './tools';
+import { StreamPrinter, streamingEnabled } from './stream';
+import { createProvider, parseModelSpec, type CompletionResult, type Provider } from './provider';
+import { compactMessages, needsCompaction, trimToolOutputs } from './compaction';
+import { classifyError, withRetry, type ModelCallError } from './retry';
+import type { TokenUsage, UsageTracker } from './usage';
+
+export interface AgentOptions {
+    model: string;
+    systemPrompt: string;
+    // Project instruction files, appended to the system prompt (see loadInstructions)
+    instructions?: InstructionSource[];
+    tools: ToolRegistry;
+    // Defaults to createProvider(): AI_PROVIDER (openai) with API_KEY / BASE_URL
+    provider?: Provider;
+    // Root for file tools; defaults to process.cwd()
+    workspaceDir?: string;
+    // Without one, every tool call is allowed
+    permissions?: PermissionManager;
+    // Without one, bash runs with the agent's own privileges
+    sandbox?: Sandbox;
+    // History is read from and saved to the session when given
+    session?: Session;
+    // Messages after the system prompt in a fresh conversation
+    initialMessages?: ChatCompletionMessageParam[];
+    todos?: TodoManager;
+    // Files are snapshotted here before write/edit calls, for /undo
+    checkpoints?: CheckpointStore;
+    // Defaults to STREAM (on unless "false"/"0")
+    stream?: boolean;
+    // Summarize older turns near the context window (default true)
+    autoCompact?: boolean;
+    // Called after each round of tool calls with the names of the tools that ran
+    onToolRound?: (toolNames: string[], agent: Agent) => void;
+    // Prefix for every line the agent prints (subagents print indented)
+    indent?: string;
+    // Where printed lines go instead of the console (a subagent running beside others buffers them)
+    print?: (text: string, level: LogLevel) => void;
+    // Read-only tool calls from one response that may run at once (default 8; 1 runs all in order)
+    parallelToolCalls?: number;
+    // Whether tool images (e.g. from read) are sent to the model; defaults to supportsVision(model)
+    vision?: boolean;
+    // Tried in order when the model keeps failing (rate limits, outages); "provider:model" or a bare name
+    fallbackModels?: string[];
+    // Retries per model for rate limits, overload and network errors (default 5)
+    maxRetries?: number;
+    // Token and cost accounting, shared with subagents; its budget stops the loop
+    usage?: UsageTracker;
+    // Project scripts around prompts and tool calls (see hooks.ts)
+    hooks?: HookRunner;
+    // Connected MCP servers, whose tools are already in the registry; kept for /mcp
+    mcp?: McpManager;
+    // Model requests per run() before it gives up (limits.maxTurns); unlimited when unset
+    maxTurns?: number;
+    // Structured record of the run, for --output-format (see output.ts)
+    onEvent?: (event: AgentEvent) => void;
+}
+
+export interface SendOptions {
+    // Permission patterns ("read", "bash(git *)"): the only tools offered and allowed for this prompt
+    allowedTools?: string[];
+}
+
+export type LogLevel = 'log' | 'warn' | 'error';
+
+// Why a run stopped before the model finished its answer
+export interface RunStop {
+    reason: 'error' | 'truncated' | 'budget' | 'max_turns' | 'interrupted';
+    message: string;
+}
+
+// Old tool output is cut to this many chars on a context overflow, then to the second
+const OVERFLOW_TRIM_CHARS = [2_000, 200];
+
+// Model name prefixes that accept image input
+const VISION_MODELS = ['gpt-4o', 'gpt-4.1', 'gpt-4-turbo', 'gpt-5', 'o1', 'o3', 'o4', 'claude', 'gemini', 'llava', 'qwen-vl', 'qwen2.5-vl', 'pixtral'];
+
+/**
+ * VISION=true/false overrides the guess from the model name.
+ */
+export function supportsVision(model: string): boolean {
+    if (process.env.VISION) {
+        return !['false', '0'].includes(process.env.VISION.toLowerCase());
+    }
+    const name = model.toLowerCase().split('/').pop() ?? '';
+    return VISION_MODELS.some(prefix => name.startsWith(prefix));
+}
+
+interface ToolCallResult {
+    message: ChatCompletionToolMessageParam;
+    images: ToolImage[];
+}
+
+export const DEFAULT_PARALLEL_TOOL_CALLS = 8;
+
+/**
+ * Map over items with at most `limit` calls in flight; results keep the input order.
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]!);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+export class Agent {
+    readonly tools: ToolRegistry;
+    readonly workspaceDir: string;
+    readonly sandbox?: Sandbox;
+    readonly session?: Session;
+    readonly todos?: TodoManager;
+    readonly checkpoints?: CheckpointStore;
+    readonly instructions: InstructionSource[];
+    // The live history; a session, if any, shares this array
+    readonly messages: ChatCompletionMessageParam[];
+    readonly permissions?: PermissionManager;
+    private stream: boolean;
+    private autoCompact: boolean;
+    private onToolRound?: (toolNames: string[], agent: Agent) => void;
+    private indent: string;
+    private print?: (text: string, level: LogLevel) => void;
+    private parallelToolCalls: number;
+    // preToolUse outcomes of calls whose hooks ran ahead of them, by tool call id
+    private hookedCalls = new Map<string, { blocked?: string }>();
+    private vision: boolean;
+    private visionOption?: boolean;
+    readonly fallbackModels: string[];
+    readonly maxRetries?: number;
+    readonly usage?: UsageTracker;
+    readonly hooks?: HookRunner;
+    readonly mcp?: McpManager;
+    readonly maxTurns?: number;
+    // Set when the last run() ended without a finished answer
+    lastStop?: RunStop;
+    // Model requests made by the last run()
+    requestCount = 0;
+    onEvent?: (event: AgentEvent) => void;
+    // SendOptions.allowedTools of the prompt being answered
+    private allowedTools?: string[];
+    // Aborted by interrupt(); set while run() is going
+    private runController?: AbortController;
+    // Both change with useModel (/model)
+    private currentProvider: Provider;
+    private currentModel: string;
+
+    constructor(options: AgentOptions) {
+        this.currentProvider = options.provider ?? createProvider();
+        this.currentModel = options.model;
+        this.tools = options.tools;
+        this.workspaceDir = options.workspaceDir ?? process.cwd();
+        this.permissions = options.permissions;
+        this.sandbox = options.sandbox;
+        this.session = options.session;
+        this.todos = options.todos;
+        this.checkpoints = options.checkpoints;
+        this.instructions = options.instructions ?? [];
+        this.stream = options.stream ?? streamingEnabled();
+        this.autoCompact = options.autoCompact ?? true;
+        this.onToolRound = options.onToolRound;
+        this.indent = options.indent ?? '';
+        this.print = options.print;
+        this.parallelToolCalls = Math.max(1, options.parallelToolCalls ?? DEFAULT_PARALLEL_TOOL_CALLS);
+        this.visionOption = options.vision;
+        this.fallbackModels = options.fallbackModels ?? [];
+        this.maxRetries = options.maxRetries;
+        this.usage = options.usage;
+        this.hooks = options.hooks;
+        this.mcp = options.mcp;
+        this.maxTurns = options.maxTurns;
+        this.onEvent = options.onEvent;
+        this.vision = options.vision ?? supportsVision(this.model);
+
+        this.messages = options.session?.messages ?? [];
+        if (this.messages.length === 0) {
+            this.messages.push(
+                { role: 'system', content: withInstructions(options.systemPrompt, this.instructions) },
+                ...(options.initialMessages ?? []),
+            );
+        }
+        if (options.session && this.todos) {
+            this.todos.update(options.session.todos as Todo[]);
+        }
+        if (options.session && this.usage) {
+            this.usage.restore(options.session.usage);
+        }
+    }
+
+    get provider(): Provider {
+        return this.currentProvider;
+    }
+
+    get model(): string {
+        return this.currentModel;
+    }
+
+    /**
+     * Switch provider and model mid-session. The history carries over as is;
+     * each provider translates it on every call.
+     */
+    useModel(model: string, provider: Provider = this.currentProvider): void {
+        this.currentModel = model;
+        this.currentProvider = provider;
+        this.vision = this.visionOption ?? supportsVision(model);
+        if (this.session) {
+            this.session.model = model;
+        }
+    }
+
+    /**
+     * Add a user message, run the loop, and return the final assistant text.
+     */
+    async send(prompt: string, options: SendOptions = {}): Promise<string | null> {
+        if (this.hooks) {
+            const submit = await this.hooks.userPromptSubmit({ sessionId: this.session?.id }, prompt);
+            if (submit.blocked !== undefined) {
+                this.log(`🚫 Prompt blocked by hook: ${submit.blocked}`, 'warn');
+                return null;
+            }
+            prompt = [prompt, ...submit.context].join('\n\n');
+        }
+        this.usage?.beginTurn();
+        this.messages.push({ role: 'user', content: prompt });
+        await this.save();
+        this.allowedTools = options.allowedTools;
+        try {
+            await this.run();
+        } finally {
+            this.allowedTools = undefined;
+        }
+        const text = this.finalText();
+        await this.hooks?.stop({ sessionId: this.session?.id, finalText: text });
+        return text;
+    }
+
+    /**
+     * The last message's text, if the model had the last word.
+     */
+    finalText(): string | null {
+        const last = this.messages[this.messages.length - 1];
+        return last?.role === 'assistant' && typeof last.content === 'string' ? last.content : null;
+    }
+
+    /**
+     * Stop the current run() (Esc in the REPL): the request in flight is
+     * aborted, running tools get their abort signal, and no new request is
+     * made. Returns false when nothing was running.
+     */
+    interrupt(): boolean {
+        if (!this.runController || this.runController.signal.aborted) {
+            return false;
+        }
+        this.runController.abort();
+        return true;
+    }
+
+    /**
+     * Keep calling the model until it stops asking for tools.
+     */
+    async run(): Promise<ChatCompletionMessageParam[]> {
+        const messages = this.messages;
+        this.lastStop = undefined;
+        this.requestCount = 0;
+        const interrupted = (this.runController = new AbortController()).signal;
+        while (true) {
+            // Tool results of an interrupted round are already recorded, so the history stays valid
+            if (interrupted.aborted) {
+                this.stopInterrupted();
+                break;
+            }
+            // Checked before every request: a tool round may have been the last straw
+            const exceeded = this.usage?.exceeded();
+            if (exceeded) {
+                this.lastStop = { reason: 'budget', message: exceeded };
+                this.log(`💸 Stopping: ${exceeded}`, 'warn');
+                break;
+            }
+            if (this.maxTurns !== undefined && this.requestCount >= this.maxTurns) {
+                this.lastStop = { reason: 'max_turns', message: `Stopped after ${this.maxTurns} model requests (limits.maxTurns)` };
+                this.log(`⏹️  ${this.lastStop.message}`, 'warn');
+                break;
+            }
+            try {
+                // Summarize older turns before the history outgrows the context window
+                if (this.autoCompact && needsCompaction(messages, this.model)) {
+                    await this.compact();
+                }
+
+                this.requestCount++;
+                const completion = await this.callModel();
+                // An aborted stream can end quietly; its partial message is dropped
+                if (interrupted.aborted) {
+                    this.stopInterrupted();
+                    break;
+                }
+
+                const finishReason = completion?.finishReason;
+                const assistantMessage = completion?.message;
+
+                if (!completion || !assistantMessage) {
+                    break;
+                }
+
+                // Print assistant's text output if any (already printed when streamed)
+                if (!completion.streamed && assistantMessage.content && typeof assistantMessage.content === 'string') {
+                    this.log(`\n${assistantMessage.content}`);
+                }
+                if (assistantMessage.content) {
+                    this.onEvent?.({ type: 'assistant', text: assistantMessage.content });
+                }
+
+                // Push assistant message first (contains tool_calls if any)
+                messages.push(assistantMessage);
+                await this.save();
+
+                // Use the (normalized) finish_reason to determine next action
+                if (finishReason === 'tool_calls') {
+                    // Model wants to call tools, process them
+                    if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
+                        const toolCalls = assistantMessage.tool_calls as ChatCompletionMessageFunctionToolCall[];
+                        const toolNames = toolCalls.map(toolCall => toolCall.function.name);
+                        const results = await this.executeToolCalls(toolCalls);
+                        // Push all tool results, in tool_call order
+                        messages.push(...results);
+                        this.onToolRound?.(toolNames, this);
+                        await this.save();
+                        // Continue the loop to get the next response after tool execution
+                        continue;
+                    }
+                } else if (finishReason === 'stop') {
+                    // Model finished normally, we're done
+                    break;
+                } else if (finishReason === 'length') {
+                    // Hit token limit, warn and break
+                    this.lastStop = { reason: 'truncated', message: 'Response truncated due to length limit' };
+                    this.log(`⚠️  ${this.lastStop.message}`, 'warn');
+                    break;
+                } else if (finishReason === 'content_filter') {
+                    // Content was filtered, stop
+                    this.lastStop = { reason: 'truncated', message: 'Response filtered by content policy' };
+                    this.log(`⚠️  ${this.lastStop.message}`, 'warn');
+                    break;
+                } else {
+                    // Unknown finish_reason, log and break to be safe
+                    this.lastStop = { reason: 'truncated', message: `Unknown finish_reason: ${completion.rawFinishReason}` };
+                    this.log(`⚠️  ${this.lastStop.message}`, 'warn');
+                    break;
+                }
+            } catch (error: any) {
+                if (interrupted.aborted) {
+                    this.stopInterrupted();
+                    break;
+                }
+                // Model errors are already classified and explained; others get the stack
+                this.log(`Error in chat loop: ${error?.name === 'ModelCallError' ? error.message : error?.stack ?? error}`, 'error');
+                messages.push({
+                    role: 'assistant',
+                    content: `Error: ${error.message}`,
+                });
+                this.lastStop = { reason: 'error', message: error.message };
+                break;
+            }
+        }
+        this.runController = undefined;
+        return messages;
+    }
+
+    private stopInterrupted(): void {
+        this.lastStop = { reason: 'interrupted', message: 'Interrupted by the user' };
+        this.log(`⏹️  ${this.lastStop.message}`, 'warn');
+    }
+
+    /**
+     * One model call that survives what it can: transient failures are retried
+     * with backoff, then the fallback models are tried in order; a context
+     * overflow trims old tool output (then compacts) and tries again.
+     */
+    private async callModel(): Promise<CompletionResult | undefined> {
+        const candidates = [
+            { provider: this.provider, model: this.model },
+            ...this.fallbackModels.map(spec => {
+                const { provider, model } = parseModelSpec(spec, this.provider.name);
+                return { provider: provider === this.provider.name ? this.provider : createProvider(provider), model };
+            }),
+        ];
+        let trimPass = 0;
+        let compacted = false;
+        // Shared by every attempt, so a retry doesn't reprint what a broken stream already showed
+        const printer = new StreamPrinter();
+        for (let i = 0; i < candidates.length; i++) {
+            const { provider, model } = candidates[i]!;
+            try {
+                const completion = await withRetry(() => provider.complete({
+                    model,
+                    messages: this.messages,
+                    tools: this.toolSchemas(),
+                    signal: this.runController?.signal,
+                    printer,
+                }, { stream: this.stream }), {
+                    maxRetries: this.maxRetries,
+                    signal: this.runController?.signal,
+                    onRetry: (failure, attempt, delay) =>
+                        this.log(`⏳ ${model}: ${failure.message.split('\n')[0]}; retry ${attempt} in ${(delay / 1000).toFixed(1)}s`, 'warn'),
+                });
+                // Billed to the model that answered, which may be a fallback
+                if (completion?.usage) {
+                    this.recordUsage(model, completion.usage);
+                }
+                return completion;
+            } catch (error) {
+                const failure: ModelCallError = classifyError(error);
+                if (failure.kind === 'context_overflow') {
+                    // Same model again, with a shorter history
+                    if (this.recoverFromOverflow(trimPass++)) {
+                        i--;
+                        continue;
+                    }
+                    if (!compacted) {
+                        compacted = true;
+                        if (await this.compact()) {
+                            i--;
+                            continue;
+                        }
+                    }
+                    throw failure;
+                }
+                const next = candidates[i + 1];
+                if (!failure.canFallBack || !next) {
+                    throw failure;
+                }
+                this.log(`⚠️  ${model} failed (${failure.message.split('\n')[0]}); falling back to ${next.provider.name}:${next.model}`, 'warn');
+            }
+        }
+        return undefined;
+    }
+
+    private recordUsage(model: string, usage: TokenUsage): void {
+        const record = this.usage?.record(model, usage);
+        this.onEvent?.({ type: 'usage', model, ...usage, cost: record?.cost });
+    }
+
+    /**
+     * Trim old tool output a little harder on each pass.
+     * Returns false once there is nothing left to trim.
+     */
+    private recoverFromOverflow(pass: number): boolean {
+        for (const maxChars of OVERFLOW_TRIM_CHARS.slice(pass)) {
+            const trimmed = trimToolOutputs(this.messages, maxChars);
+            if (trimmed > 0) {
+                this.log(`✂️  Context window exceeded: trimmed ${trimmed} old tool result(s) to ${maxChars} chars, retrying`, 'warn');
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Replace older turns with a summary. keepTokens = 0 summarizes everything.
+     * Returns false when there was nothing to compact.
+     */
+    async compact(keepTokens?: number): Promise<boolean> {
+        const compacted = await compactMessages(this.provider, this.messages, {
+            model: this.model,
+            todos: this.todos?.render(),
+            keepTokens,
+            onUsage: usage => this.recordUsage(this.model, usage),
+            log: text => this.log(text),
+            // Only set during run(); /compact between prompts has nothing to abort it
+            signal: this.runController?.signal,
+        });
+        if (compacted) {
+            await this.save();
+        }
+        return compacted;
+    }
+
+    /**
+     * Forget the conversation (/clear): back to the system prompt, with no todos.
+     * Usage totals and checkpoints stay.
+     */
+    async clear(): Promise<void> {
+        this.messages.splice(1);
+        this.todos?.reset();
+        await this.save();
+    }
+
+    /**
+     * Revert the files changed in the last n turns and tell the model.
+     * Returns what was restored, for display.
+     */
+    async rewind(n = 1): Promise<string> {
+        if (!this.checkpoints) {
+            throw new Error('Checkpoints are not enabled for this agent');
+        }
+        const restored = renderRestored(await this.checkpoints.rewind(n), this.workspaceDir);
+        this.messages.push({
+            role: 'user',
+            content: `[The user reverted the file changes from the last ${n} turn(s). Files are back to their earlier state:]\n${restored}`,
+        });
+        await this.save();
+        return restored;
+    }
+
+    async save(): Promise<void> {
+        if (!this.session) {
+            return;
+        }
+        if (this.todos) {
+            this.session.todos = this.todos.list();
+        }
+        if (this.usage) {
+            this.session.usage = this.usage.records();
+        }
+        await this.session.save();
+    }
+
+    /**
+     * Run one response's tool calls. Consecutive read-only calls run
+     * concurrently; a call that changes state waits for the ones before it and
+     * runs alone, so later calls see its effects:
+     *
+     *   read a, read b, edit a, read a, read c
+     *   [ read a | read b ] -> [ edit a ] -> [ read a | read c ]
+     *
+     * With hooks, a batch's preToolUse hooks run first and the batch is
+     * decided on the arguments they leave.
+     *
+     * Results come back in tool_call order whatever order they finished in.
+     * Images from the results follow in one user message.
+     */
+    private async executeToolCalls(toolCalls: ChatCompletionMessageFunctionToolCall[]): Promise<ChatCompletionMessageParam[]> {
+        const results: ToolCallResult[] = [];
+        let start = 0;
+        while (start < toolCalls.length) {
+            let end = start + 1;
+            if (this.isReadOnlyCall(toolCalls[start]!)) {
+                while (end < toolCalls.length && this.isReadOnlyCall(toolCalls[end]!)) {
+                    end++;
+                }
+            }
+            if (end - start > 1 && this.parallelToolCalls > 1 && this.hooks) {
+                // A preToolUse hook may rewrite a read-only call into one that changes things:
+                // run the batch's hooks now, and end the batch before the first call that does
+                for (const toolCall of toolCalls.slice(start, end)) {
+                    // A hook that fails here fails again, and is reported, when its call runs
+                    const outcome = await this.preToolUse(toolCall).catch(() => undefined);
+                    if (outcome) {
+                        this.hookedCalls.set(toolCall.id, outcome);
+                    }
+                }
+                let readOnlyEnd = start;
+                while (readOnlyEnd < end && this.isReadOnlyCall(toolCalls[readOnlyEnd]!)) {
+                    readOnlyEnd++;
+                }
+                end = Math.max(readOnlyEnd, start + 1);
+            }
+            const batch = toolCalls.slice(start, end);
+            if (batch.length === 1 || this.parallelToolCalls === 1) {
+                for (const toolCall of batch) {
+                    results.push(await this.executeToolCall(toolCall));
+                }
+            } else {
+                // Print results in call order once the batch is done, not as they finish
+                const batchResults = await mapConcurrent(batch, this.parallelToolCalls, toolCall => this.executeToolCall(toolCall, false));
+                batch.forEach((toolCall, i) => this.printToolResult(toolCall.function.name, String(batchResults[i]!.message.content), true));
+                results.push(...batchResults);
+            }
+            start = end;
+        }
+
+        const messages: ChatCompletionMessageParam[] = results.map(result => result.message);
+        const images = results.flatMap(result => result.images.map(image => ({ image, id: result.message.tool_call_id })));
+        if (images.length > 0) {
+            const parts: ChatCompletionContentPart[] = [];
+            for (const { image, id } of images) {
+                parts.push(
+                    { type: 'text', text: `Image from tool call ${id}:` },
+                    { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+                );
+            }
+            messages.push({ role: 'user', content: parts });
+        }
+        return messages;
+    }
+
+    /**
+     * The registry's schemas, less the tools the current prompt may not use.
+     */
+    private toolSchemas() {
+        const schemas = this.tools.schemas();
+        const allowed = this.allowedTools;
+        if (!allowed) {
+            return schemas;
+        }
+        return schemas.filter(schema => schema.type === 'function' && allowed.some(pattern => pattern.match(/^\w+/)?.[0] === schema.function.name));
+    }
+
+    /**
+     * Run the preToolUse hooks for a call, once: a batch runs them ahead of
+     * its calls, and the call then gets the stored outcome. Rewritten
+     * arguments replace the call's own, so the history shows what ran.
+     */
+    private async preToolUse(toolCall: ChatCompletionMessageFunctionToolCall): Promise<{ blocked?: string } | undefined> {
+        if (!this.hooks) {
+            return undefined;
+        }
+        const earlier = this.hookedCalls.get(toolCall.id);
+        if (earlier) {
+            this.hookedCalls.delete(toolCall.id);
+            return earlier;
+        }
+        const args = JSON.parse(toolCall.function.arguments);
+        const pre = await this.hooks.preToolUse({ sessionId: this.session?.id }, toolCall.function.name, args);
+        if (pre.blocked === undefined && pre.args !== args) {
+            toolCall.function.arguments = JSON.stringify(pre.args);
+        }
+        return { blocked: pre.blocked };
+    }
+
+    private isReadOnlyCall(toolCall: ChatCompletionMessageFunctionToolCall): boolean {
+        try {
+            return this.tools.isReadOnly(toolCall.function.name, JSON.parse(toolCall.function.arguments), { workspaceDir: this.workspaceDir, sandbox: this.sandbox, agent: this });
+        } catch {
+            // Bad JSON fails on its own; run it in order like any other call
+            return false;
+        }
+    }
+
+    /**
+     * Check permissions, run one tool call and turn the outcome into a tool message.
+     * Failures (bad JSON, denied, thrown by the handler) go back to the model as errors.
+     */
+    private async executeToolCall(toolCall: ChatCompletionMessageFunctionToolCall, printResult = true): Promise<ToolCallResult> {
+        const toolName = toolCall.function.name;
+        // Once set, the tool ran and postToolUse hooks see the outcome
+        let ranArgs: Record<string, any> | undefined;
+        try {
+            const pre = await this.preToolUse(toolCall);
+            // Parse the JSON arguments (as rewritten by the hooks)
+            const args = JSON.parse(toolCall.function.arguments);
+            if (pre?.blocked !== undefined) {
+                this.onEvent?.({ type: 'tool_call', id: toolCall.id, name: toolName, args });
+                this.log(`🚫 ${toolName}(${JSON.stringify(args)}) blocked by hook`);
+                throw new Error(`Blocked by hook: ${pre.blocked}`);
+            }
+            this.log(`🔧 ${toolName}(${JSON.stringify(args)})`);
+            this.onEvent?.({ type: 'tool_call', id: toolCall.id, name: toolName, args });
+            if (this.allowedTools && !this.allowedTools.some(pattern => matchesPattern(pattern, toolName, args))) {
+                throw new Error(`${toolName} is not allowed here (allowed: ${this.allowedTools.join(', ')})`);
+            }
+
+            // Ctrl+C (or interrupt()) while a tool runs cancels the tool, not the whole agent
+            const controller = new AbortController();
+            const onInterrupt = () => controller.abort();
+            const interrupted = this.runController?.signal;
+            // Results of a parallel batch print later; so does anything else the tool prints
+            const context = { workspaceDir: this.workspaceDir, sandbox: this.sandbox, signal: controller.signal, agent: this, concurrent: !printResult };
+            const tool = this.tools.get(toolName);
+            if (tool && this.permissions) {
+                // Decided on the arguments the hooks left, which are the ones that run
+                await this.permissions.check({
+                    toolName,
+                    args,
+                    readOnly: this.tools.isReadOnly(toolName, args, context),
+                    preview: () => tool.preview?.(args, context) ?? Promise.resolve(JSON.stringify(args, null, 2)),
+                });
+            }
+            // Snapshot the files the call may change, for /undo
+            if (tool?.touches && this.checkpoints && !this.tools.isReadOnly(toolName, args, context)) {
+                await this.checkpoints.snapshot(tool.touches(args, context));
+            }
+            const releaseInterrupt = trapInterrupt(onInterrupt);
+            interrupted?.addEventListener('abort', onInterrupt);
+            let output;
+            ranArgs = args;
+            try {
+                if (interrupted?.aborted) {
+                    throw new Error('Interrupted by the user');
+                }
+                output = await this.tools.execute(toolName, args, context);
+            } finally {
+                releaseInterrupt();
+                interrupted?.removeEventListener('abort', onInterrupt);
+            }
+
+            let result = typeof output === 'string' ? output : output.text;
+            let images = typeof output === 'string' ? [] : output.images ?? [];
+            if (images.length > 0 && !this.vision) {
+                result += `\n(${images.length} image(s) not shown: ${this.model} doesn't accept images; set VISION=true if it does)`;
+                images = [];
+            } else if (images.length > 0) {
+                result += `\n(image attached below)`;
+            }
+            result += await this.hookFeedback(toolName, args, result, false);
+            if (printResult) {
+                this.printToolResult(toolName, result);
+            }
+            this.onEvent?.({ type: 'tool_result', id: toolCall.id, name: toolName, output: result, isError: false });
+            if (this.todos && toolName === 'todoWrite') {
+                this.onEvent?.({ type: 'todo_update', todos: this.todos.list() });
+            }
+            return { message: { role: 'tool', content: result, tool_call_id: toolCall.id }, images };
+        } catch (error: any) {
+            let result = `Error: ${error.message}`;
+            if (ranArgs) {
+                result += await this.hookFeedback(toolName, ranArgs, result, true);
+            }
+            if (printResult) {
+                this.printToolResult(toolName, result);
+            }
+            this.onEvent?.({ type: 'tool_result', id: toolCall.id, name: toolName, output: result, isError: true });
+            return { message: { role: 'tool', content: result, tool_call_id: toolCall.id }, images: [] };
+        }
+    }
+
+    /**
+     * postToolUse feedback, formatted to append to the tool result.
+     */
+    private async hookFeedback(toolName: string, args: Record<string, any>, result: string, isError: boolean): Promise<string> {
+        const feedback = await this.hooks?.postToolUse({ sessionId: this.session?.id }, toolName, args, result, isError) ?? [];
+        return feedback.length > 0 ? `\n\n[Hook feedback]\n${feedback.join('\n')}` : '';
+    }
+
+    /**
+     * Results of a parallel batch print after all its calls, so `named` labels
+     * each with its tool.
+     */
+    private printToolResult(toolName: string, result: string, named = false): void {
+        const label = named ? `[${toolName}] ` : '';
+        if (result.startsWith('Error: ')) {
+            this.log(`  ${label}${result}\n`, 'error');
+            return;
+        }
+        // Only print preview of result (max 200 chars)
+        const preview = result.length > 200
+            ? result.slice(0, 200) + '...'
+            : result;
+        this.log(`  ${label}${preview}\n`);
+    }
+
+    private log(text: string, level: LogLevel = 'log'): void {
+        const line = this.indent ? text.replace(/^/gm, this.indent) : text;
+        if (this.print) {
+            this.print(line, level);
+        } else {
+            console[level](line);
+        }
+    }
+}
@@ -0,0 +1,258 @@
+/**
+ * core/anthropic.ts
+ *
+ * The Anthropic Messages API, over fetch. The history maps like this:
+ *
+ *   system message                 -> top-level "system"
+ *   assistant text + tool_calls    -> text and tool_use blocks
+ *   tool messages (+ their images) -> one user turn of tool_result blocks
+ *   image_url data URLs            -> base64 image blocks
+ *
+ * The API wants user and assistant turns to alternate, so consecutive
+ * messages of the same role are merged into one.
+ *
+ * Streaming is server-sent events: content_block_start opens a text or
+ * tool_use block, content_block_delta appends text or partial JSON, and
+ * message_delta carries the stop reason.
+ */
+
+import type { ChatCompletionContentPart, ChatCompletionMessage, ChatCompletionMessageFunctionToolCall, ChatCompletionMessageParam } from 'openai/resources';
+import {
+    normalizeStopReason,
+    parseDataUrl,
+    parseToolArguments,
+    ProviderError,
+    type CompletionRequest,
+    type CompletionResult,
+    type Provider,
+    type ProviderEndpoint,
+} from './provider';
+import { readServerSentEvents, StreamPrinter } from './stream';
+import type { TokenUsage } from './usage';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+// Required by the API; generous enough for a large write call
+const MAX_OUTPUT_TOKENS = 16384;
+
+type Block =
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: Block[];
+}
+
+function contentBlocks(content: string | ChatCompletionContentPart[] | null | undefined): Block[] {
+    if (!content) {
+        return [];
+    }
+    if (typeof content === 'string') {
+        return content ? [{ type: 'text', text: content }] : [];
+    }
+    const blocks: Block[] = [];
+    for (const part of content) {
+        // The API rejects empty text blocks
+        if (part.type === 'text' && part.text) {
+            blocks.push({ type: 'text', text: part.text });
+        } else if (part.type === 'image_url') {
+            const image = parseDataUrl(part.image_url.url);
+            if (image) {
+                blocks.push({ type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } });
+            }
+        }
+    }
+    return blocks;
+}
+
+/**
+ * Our history as Anthropic's system prompt plus alternating turns.
+ */
+export function toAnthropicMessages(messages: ChatCompletionMessageParam[]): { system: string; messages: AnthropicMessage[] } {
+    const system: string[] = [];
+    const turns: AnthropicMessage[] = [];
+    const push = (role: 'user' | 'assistant', content: Block[]) => {
+        if (content.length === 0) {
+            return;
+        }
+        const last = turns[turns.length - 1];
+        if (last?.role === role) {
+            last.content.push(...content);
+        } else {
+            turns.push({ role, content });
+        }
+    };
+
+    for (const message of messages) {
+        switch (message.role) {
+            case 'system':
+            case 'developer':
+                system.push(typeof message.content === 'string' ? message.content : message.content.map(part => part.text).join(''));
+                break;
+            case 'user':
+                push('user', contentBlocks(message.content));
+                break;
+            case 'assistant': {
+                const blocks = contentBlocks(typeof message.content === 'string' ? message.content : message.content?.filter(part => part.type === 'text'));
+                for (const toolCall of message.tool_calls ?? []) {
+                    if (toolCall.type === 'function') {
+                        blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input: parseToolArguments(toolCall.function.arguments) });
+                    }
+                }
+                push('assistant', blocks);
+                break;
+            }
+            case 'tool':
+                push('user', [{
+                    type: 'tool_result',
+                    tool_use_id: message.tool_call_id,
+                    content: typeof message.content === 'string' ? message.content : message.content.map(part => part.text).join(''),
+                }]);
+                break;
+        }
+    }
+    return { system: system.join('\n\n'), messages: turns };
+}
+
+/**
+ * Anthropic counts cache reads and writes apart from input_tokens; ours
+ * includes them.
+ */
+function tokenUsage(usage: any): TokenUsage | undefined {
+    if (!usage) {
+        return undefined;
+    }
+    const cached = usage.cache_read_input_tokens ?? 0;
+    return {
+        inputTokens: (usage.input_tokens ?? 0) + cached + (usage.cache_creation_input_tokens ?? 0),
+        outputTokens: usage.output_tokens ?? 0,
+        cachedTokens: cached,
+    };
+}
+
+/**
+ * The response's blocks as a Chat Completions assistant message.
+ */
+function toAssistantMessage(text: string, toolUses: { id: string; name: string; input: string }[]): ChatCompletionMessage {
+    const message: ChatCompletionMessage = { role: 'assistant', content: text || null, refusal: null };
+    if (toolUses.length > 0) {
+        message.tool_calls = toolUses.map((toolUse): ChatCompletionMessageFunctionToolCall => ({
+            id: toolUse.id,
+            type: 'function',
+            function: { name: toolUse.name, arguments: toolUse.input || '{}' },
+        }));
+    }
+    return message;
+}
+
+export class AnthropicProvider implements Provider {
+    readonly name = 'anthropic';
+    private apiKey?: string;
+    private baseUrl: string;
+
+    constructor(endpoint: ProviderEndpoint) {
+        this.apiKey = endpoint.apiKey;
+        this.baseUrl = (endpoint.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    }
+
+    async complete(request: CompletionRequest, options: { stream: boolean }): Promise<CompletionResult | undefined> {
+        const { system, messages } = toAnthropicMessages(request.messages);
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'anthropic-version': API_VERSION,
+                ...(this.apiKey ? { 'x-api-key': this.apiKey } : {}),
+            },
+            body: JSON.stringify({
+                model: request.model,
+                max_tokens: MAX_OUTPUT_TOKENS,
+                ...(system ? { system } : {}),
+                messages,
+                ...(request.tools && request.tools.length > 0 ? {
+                    tools: request.tools.map(tool => tool.type === 'function' ? {
+                        name: tool.function.name,
+                        description: tool.function.description,
+                        input_schema: tool.function.parameters,
+                    } : tool),
+                } : {}),
+                stream: options.stream,
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok) {
+            throw await ProviderError.from(this.name, response);
+        }
+        if (options.stream && response.body) {
+            return this.readStream(response.body, request.printer);
+        }
+
+        const data: any = await response.json();
+        const blocks: any[] = data.content ?? [];
+        const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+        const toolUses = blocks.filter(block => block.type === 'tool_use')
+            .map(block => ({ id: block.id, name: block.name, input: JSON.stringify(block.input ?? {}) }));
+        const message = toAssistantMessage(text, toolUses);
+        return {
+            message,
+            finishReason: normalizeStopReason(data.stop_reason, message),
+            rawFinishReason: data.stop_reason,
+            streamed: false,
+            usage: tokenUsage(data.usage),
+        };
+    }
+
+    private async readStream(body: ReadableStream<Uint8Array>, printer = new StreamPrinter()): Promise<CompletionResult | undefined> {
+        let text = '';
+        let stopReason: string | undefined;
+        let started = false;
+        // message_start has the input counts, message_delta the final output count
+        let usage: any;
+        // Indexed by content block index; text blocks leave holes
+        const toolUses: { id: string; name: string; input: string }[] = [];
+
+        try {
+            for await (const { data } of readServerSentEvents(body)) {
+                const event = JSON.parse(data);
+                switch (event.type) {
+                    case 'message_start':
+                        started = true;
+                        usage = event.message?.usage;
+                        break;
+                    case 'content_block_start':
+                        if (event.content_block?.type === 'tool_use') {
+                            toolUses[event.index] = { id: event.content_block.id, name: event.content_block.name, input: '' };
+                        }
+                        break;
+                    case 'content_block_delta':
+                        if (event.delta?.type === 'text_delta') {
+                            text += event.delta.text;
+                            printer.text(event.delta.text);
+                        } else if (event.delta?.type === 'input_json_delta' && toolUses[event.index]) {
+                            const toolUse = toolUses[event.index]!;
+                            toolUse.input += event.delta.partial_json;
+                            printer.toolProgress(toolUse.name, toolUse.input.length);
+                        }
+                        break;
+                    case 'message_delta':
+                        stopReason = event.delta?.stop_reason ?? stopReason;
+                        usage = { ...usage, ...event.usage };
+                        break;
+                    case 'error':
+                        // Errors after the 200 arrive in the stream; overloaded is the usual one
+                        throw new ProviderError(this.name, event.error?.type === 'overloaded_error' ? 529 : 500, event.error?.message ?? data);
+                }
+            }
+        } finally {
+            printer.end();
+        }
+        if (!started) {
+            return undefined;
+        }
+        const message = toAssistantMessage(text, toolUses.filter(Boolean));
+        return { message, finishReason: normalizeStopReason(stopReason, message), rawFinishReason: stopReason, streamed: true, usage: tokenUsage(usage) };
+    }
+}
@@ -0,0 +1,303 @@
+/**
+ * core/background.ts
+ *
+ * Background processes: dev servers, watchers, anything that doesn't exit.
+ *
+ * `bash` blocks until the command exits, so the model can't start a server
+ * and then talk to it. These tools can:
+ *
+ *   bgStart  "bun dev"           -> bg_1 (pid 4242)
+ *   bash     "curl localhost:3000"
+ *   bgOutput bg_1                -> new log lines since the last read
+ *   bgInput  bg_1 "rs\n"         -> written to its stdin
+ *   bgKill   bg_1
+ *
+ * Output is kept in a bounded buffer per process; each read returns what
+ * arrived since the previous one. Every child runs in its own process group
+ * and is killed when the agent exits, including on SIGINT, SIGTERM and SIGHUP.
+ */
+
+import type { FileSink, Subprocess } from 'bun';
+import { constants } from 'os';
+import type { Tool, ToolContext } from './tools';
+
+// Output retained per process (older output is dropped)
+const MAX_BUFFER_CHARS = 256 * 1024;
+// Returned per bgOutput call (the most recent part wins)
+const MAX_READ_CHARS = 16 * 1024;
+const MAX_PROCESSES = 10;
+// Signals that would end the agent without an 'exit' event
+const FATAL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+const managers = new Set<BackgroundProcessManager>();
+// Tool calls that Ctrl+C cancels (see trapInterrupt); while any run, SIGINT is theirs
+let interruptibleCalls = 0;
+
+/**
+ * Let SIGINT cancel a running tool call instead of ending the agent, until
+ * the returned function is called.
+ */
+export function trapInterrupt(listener: () => void): () => void {
+    process.on('SIGINT', listener);
+    interruptibleCalls++;
+    let released = false;
+    return () => {
+        if (!released) {
+            released = true;
+            interruptibleCalls--;
+            process.off('SIGINT', listener);
+        }
+    };
+}
+
+function onFatalSignal(signal: NodeJS.Signals): void {
+    if (signal === 'SIGINT' && interruptibleCalls > 0) {
+        return;
+    }
+    for (const manager of managers) {
+        manager.killAll();
+    }
+    process.exit(128 + constants.signals[signal]);
+}
+
+interface BackgroundProcess {
+    id: string;
+    command: string;
+    proc: Subprocess<'pipe', 'pipe', 'pipe'>;
+    startedAt: number;
+    // Combined stdout/stderr; `dropped` bytes were discarded from the front
+    output: string;
+    dropped: number;
+    // Absolute offset (including dropped bytes) of the next unread byte
+    readOffset: number;
+    exitCode: number | null;
+    exited: boolean;
+}
+
+export class BackgroundProcessManager {
+    private processes = new Map<string, BackgroundProcess>();
+    private nextId = 1;
+
+    constructor() {
+        // Children must not outlive the agent; they are detached, so a signal to us doesn't reach them
+        process.once('exit', () => this.killAll());
+        if (managers.size === 0) {
+            for (const signal of FATAL_SIGNALS) {
+                process.on(signal, onFatalSignal);
+            }
+        }
+        managers.add(this);
+    }
+
+    start(command: string, context: ToolContext): BackgroundProcess {
+        const running = [...this.processes.values()].filter(p => !p.exited);
+        if (running.length >= MAX_PROCESSES) {
+            throw new Error(`Too many background processes (${MAX_PROCESSES}); kill one first`);
+        }
+
+        const argv = context.sandbox ? context.sandbox.prepare(command) : ['bash', '-c', command];
+        const proc = Bun.spawn(argv, {
+            cwd: context.workspaceDir,
+            stdin: 'pipe',
+            stdout: 'pipe',
+            stderr: 'pipe',
+            detached: true,
+        });
+        // Don't keep the agent alive just because a server is running
+        proc.unref();
+
+        const entry: BackgroundProcess = {
+            id: `bg_${this.nextId++}`,
+            command,
+            proc,
+            startedAt: Date.now(),
+            output: '',
+            dropped: 0,
+            readOffset: 0,
+            exitCode: null,
+            exited: false,
+        };
+        this.processes.set(entry.id, entry);
+
+        this.pipe(entry, proc.stdout);
+        this.pipe(entry, proc.stderr);
+        proc.exited.then(code => {
+            entry.exited = true;
+            entry.exitCode = code;
+        });
+        return entry;
+    }
+
+    get(id: string): BackgroundProcess {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            throw new Error(`No background process ${id}`);
+        }
+        return entry;
+    }
+
+    list(): BackgroundProcess[] {
+        return [...this.processes.values()];
+    }
+
+    /**
+     * Output since the last read, or everything retained with all = true
+     * (which leaves the read position where it was).
+     */
+    read(id: string, all = false): string {
+        const entry = this.get(id);
+        const missed = all ? 0 : Math.max(0, entry.dropped - entry.readOffset);
+        const from = all ? entry.dropped : Math.max(entry.readOffset, entry.dropped);
+        let text = entry.output.slice(from - entry.dropped);
+        if (!all) {
+            entry.readOffset = entry.dropped + entry.output.length;
+        }
+
+        const notes: string[] = [];
+        if (missed > 0) {
+            notes.push(`[${missed} characters dropped before this read]`);
+        }
+        if (text.length > MAX_READ_CHARS) {
+            notes.push(`[showing last ${MAX_READ_CHARS} of ${text.length} characters]`);
+            text = text.slice(-MAX_READ_CHARS);
+        }
+        return [this.status(entry), ...notes, text || '(no new output)'].join('\n');
+    }
+
+    write(id: string, input: string): void {
+        const entry = this.get(id);
+        if (entry.exited) {
+            throw new Error(`${id} has exited`);
+        }
+        const stdin = entry.proc.stdin as FileSink;
+        stdin.write(input);
+        stdin.flush();
+    }
+
+    kill(id: string): void {
+        const entry = this.get(id);
+        if (!entry.exited) {
+            this.killGroup(entry, 'SIGTERM');
+            setTimeout(() => this.killGroup(entry, 'SIGKILL'), 2_000).unref();
+        }
+    }
+
+    killAll(): void {
+        for (const entry of this.processes.values()) {
+            if (!entry.exited) {
+                this.killGroup(entry, 'SIGKILL');
+            }
+        }
+    }
+
+    status(entry: BackgroundProcess): string {
+        const seconds = Math.round((Date.now() - entry.startedAt) / 1000);
+        const state = entry.exited ? `exited with code ${entry.exitCode}` : `running for ${seconds}s`;
+        return `${entry.id} (pid ${entry.proc.pid}) ${state}: ${entry.command}`;
+    }
+
+    private killGroup(entry: BackgroundProcess, signal: NodeJS.Signals): void {
+        try {
+            process.kill(-entry.proc.pid, signal);
+        } catch {
+            // Already gone
+        }
+    }
+
+    private async pipe(entry: BackgroundProcess, stream: ReadableStream<Uint8Array>): Promise<void> {
+        const decoder = new TextDecoder();
+        for await (const chunk of stream) {
+            entry.output += decoder.decode(chunk, { stream: true });
+            if (entry.output.length > MAX_BUFFER_CHARS) {
+                const excess = entry.output.length - MAX_BUFFER_CHARS;
+                entry.output = entry.output.slice(excess);
+                entry.dropped += excess;
+            }
+        }
+    }
+}
+
+/**
+ * bgStart / bgOutput / bgInput / bgKill, sharing one manager.
+ */
+export function backgroundTools(manager: BackgroundProcessManager): Tool<any>[] {
+    const bgStart: Tool<{ command: string }> = {
+        name: 'bgStart',
+        description: 'Start a long-running command in the background (dev server, watcher, ...). Returns an id for bgOutput/bgInput/bgKill.',
+        parameters: {
+            type: 'object',
+            properties: {
+                command: { type: 'string', description: 'The bash command to run in the background' },
+            },
+            required: ['command'],
+        },
+        destructive: true,
+        preview: async args => `$ ${args.command} &`,
+        async handler({ command }, context) {
+            const entry = manager.start(command, context);
+            // Give it a moment so immediate failures show up in the first result
+            await Bun.sleep(500);
+            return manager.read(entry.id);
+        },
+    };
+
+    const bgOutput: Tool<{ id: string; all?: boolean }> = {
+        name: 'bgOutput',
+        description: 'Read output from a background process: what arrived since the last read, or everything retained with all=true ' +
+            '(which doesn\'t count as a read). Omit id to list processes.',
+        parameters: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Background process id, e.g. bg_1 (optional)' },
+                all: { type: 'boolean', description: 'Return all retained output, not just new output (optional)' },
+            },
+        },
+        // A plain read moves the read position, so it runs alone, not beside another read of the same output
+        readOnly: args => !args.id || args.all === true,
+        async handler({ id, all }) {
+            if (!id) {
+                const entries = manager.list();
+                return entries.length === 0 ? 'No background processes' : entries.map(e => manager.status(e)).join('\n');
+            }
+            return manager.read(id, all);
+        },
+    };
+
+    const bgInput: Tool<{ id: string; input: string }> = {
+        name: 'bgInput',
+        description: 'Write to the stdin of a background process. Include "\\n" to send a line.',
+        parameters: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Background process id' },
+                input: { type: 'string', description: 'Text to write to stdin' },
+            },
+            required: ['id', 'input'],
+        },
+        preview: async args => `${args.id} <<< ${JSON.stringify(args.input)}`,
+        async handler({ id, input }) {
+            manager.write(id, input);
+            await Bun.sleep(200);
+            return manager.read(id);
+        },
+    };
+
+    const bgKill: Tool<{ id: string }> = {
+        name: 'bgKill',
+        description: 'Stop a background process and its children.',
+        parameters: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Background process id' },
+            },
+            required: ['id'],
+        },
+        async handler({ id }) {
+            manager.kill(id);
+            await Bun.sleep(300);
+            return `Killed ${id}\n${manager.read(id)}`;
+        },
+    };
+
+    return [bgStart, bgOutput, bgInput, bgKill];
+}
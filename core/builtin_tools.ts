@@ -0,0 +1,267 @@
+/**
+ * core/builtin_tools.ts
+ *
+ * The four tools from v1: bash, read, write, edit.
+ *
+ * With just these, the model can explore (bash: find, grep, ls),
+ * understand (read), change (write, edit) and run anything (bash).
+ */
+
+import { resolve } from 'path';
+import { unifiedDiff } from './diff';
+import { applyReplacement } from './edits';
+import { detectFileKind, formatBytes } from './file_types';
+import { DEFAULT_TIMEOUT_MS, formatShellResult, MAX_TIMEOUT_MS, runShell } from './shell';
+import type { Tool, ToolContext } from './tools';
+
+export function isSafePath(workspaceDir: string, path: string): boolean {
+    const absWorkspace = resolve(workspaceDir);
+    const absTarget = resolve(workspaceDir, path);
+    return absTarget === absWorkspace || absTarget.startsWith(absWorkspace + "/");
+}
+
+/**
+ * Resolve a tool path inside the workspace, or throw.
+ */
+export function safePath(context: ToolContext, path: string): string {
+    if (!isSafePath(context.workspaceDir, path)) {
+        throw new Error(`Unsafe path: ${path}`);
+    }
+    return resolve(context.workspaceDir, path);
+}
+
+// Bash commands that only inspect the workspace, when run without shell operators
+const READ_ONLY_COMMANDS = new Set(['ls', 'cat', 'head', 'tail', 'wc', 'pwd', 'grep', 'rg', 'tree', 'file', 'stat', 'du', 'which']);
+// Not branch: -D and -m delete and rename
+const READ_ONLY_GIT_SUBCOMMANDS = new Set(['status', 'diff', 'log', 'show']);
+// A newline separates commands just like ;
+const SHELL_OPERATORS = /[;&|<>`\n\r]|\$\(/;
+// $HOME, ${dir}: where they point isn't known until the shell expands them
+const VARIABLE = /\$[\w{]/;
+// Flags that write or run something: -o (also in a cluster like tree -ao) and
+// git diff/log/show --output write a file, rg --pre/--pre-glob run a program
+const UNSAFE_FLAG = /^(?:-[a-zA-Z]*o|--output|--pre)/;
+
+/**
+ * Whether bash can run the command without asking: a known inspecting
+ * command, nothing that writes, and no path outside the workspace.
+ */
+export function isReadOnlyCommand(command: string, workspaceDir?: string): boolean {
+    if (SHELL_OPERATORS.test(command) || VARIABLE.test(command)) {
+        return false;
+    }
+    const words = command.trim().split(/\s+/);
+    if (words.some(word => UNSAFE_FLAG.test(word))) {
+        return false;
+    }
+    if (workspaceDir && words.some(word => namesPathOutside(workspaceDir, word))) {
+        return false;
+    }
+    const [program, subcommand] = words;
+    if (program === 'git') {
+        return subcommand !== undefined && READ_ONLY_GIT_SUBCOMMANDS.has(subcommand);
+    }
+    return program !== undefined && READ_ONLY_COMMANDS.has(program);
+}
+
+/**
+ * "/etc/passwd", "~/.ssh", "../x" or "--file=/etc/x" pointing out of the workspace.
+ */
+function namesPathOutside(workspaceDir: string, word: string): boolean {
+    const path = word.replace(/^-[^=]*=/, '').replace(/^['"]|['"]$/g, '');
+    if (!(path.startsWith('/') || path.startsWith('~') || path.includes('..'))) {
+        return false;
+    }
+    return path.startsWith('~') || !isSafePath(workspaceDir, path);
+}
+
+// Refused outright; limits.dangerousCommands in the config replaces the list
+export const DANGEROUS_COMMANDS = ["rm -rf /", "sudo", "shutdown", "reboot", "> /dev/"];
+
+export function createBashTool(dangerousCommands: string[] = DANGEROUS_COMMANDS): Tool<{ command: string; timeout?: number }> {
+    return {
+        name: 'bash',
+        description: 'Execute a bash command. Use for: ls, cd, pwd, mkdir, rm, cp, mv, node, bun, python, etc. ' +
+            `Commands are killed after the timeout (default ${DEFAULT_TIMEOUT_MS / 1000}s); don't start servers or watchers here. ` +
+            'Long output is truncated in the middle.',
+        parameters: {
+            type: 'object',
+            properties: {
+                command: { type: 'string', description: 'The bash command to execute' },
+                timeout: { type: 'number', description: `Timeout in seconds (optional, max ${MAX_TIMEOUT_MS / 1000})` },
+            },
+            required: ['command'],
+        },
+        readOnly: (args, context) => isReadOnlyCommand(String(args.command ?? ''), context.workspaceDir),
+        destructive: true,
+        preview: async args => `$ ${args.command}`,
+        async handler({ command, timeout }, context) {
+            if (dangerousCommands.some(cmd => command.includes(cmd))) {
+                throw new Error(`Dangerous command: ${command}`);
+            }
+
+            const options = {
+                timeoutMs: timeout !== undefined ? timeout * 1000 : undefined,
+                signal: context.signal,
+            };
+            const result = context.sandbox
+                ? await context.sandbox.run(command, options)
+                : await runShell(command, { ...options, cwd: context.workspaceDir });
+            return formatShellResult(result);
+        },
+    };
+}
+
+export const bashTool = createBashTool();
+
+export async function readIfExists(path: string): Promise<string> {
+    const file = Bun.file(path);
+    return await file.exists() ? await file.text() : '';
+}
+
+export const writeTool: Tool<{ path: string; content: string }> = {
+    name: 'write',
+    description: 'Write content to a file. Creates parent directories if needed.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'Relative path for the file to write to' },
+            content: { type: 'string', description: 'The content to write to the file' },
+        },
+        required: ['path', 'content'],
+    },
+    destructive: true,
+    async preview({ path, content }, context) {
+        const before = await readIfExists(safePath(context, path));
+        return unifiedDiff(path, before, content) || `(no changes to ${path})`;
+    },
+    touches: ({ path }, context) => [safePath(context, path)],
+    async handler({ path, content }, context) {
+        await Bun.write(safePath(context, path), content);
+        return `Wrote ${path}`;
+    },
+};
+
+// Files larger than this are refused unless a range or force is given
+const MAX_READ_BYTES = 256 * 1024;
+// Lines returned when no limit is given
+const DEFAULT_READ_LINES = 2000;
+// Longer lines are cut, so one minified line can't flood the context
+const MAX_LINE_CHARS = 2000;
+// Larger images are described instead of sent
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Lines [offset, offset + limit) numbered like `cat -n`, with a note on
+ * how to continue when the file goes on.
+ */
+function numberLines(content: string, offset: number, limit: number): string {
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+    if (offset > lines.length && lines.length > 0) {
+        throw new Error(`offset ${offset} is past the end of the file (${lines.length} lines)`);
+    }
+    const start = offset - 1;
+    const end = Math.min(lines.length, start + limit);
+    const numbered = lines.slice(start, end).map((line, i) => {
+        const text = line.length > MAX_LINE_CHARS ? line.slice(0, MAX_LINE_CHARS) + ' ... [line truncated]' : line;
+        return `${String(start + i + 1).padStart(6)}\t${text}`;
+    });
+    if (end < lines.length) {
+        numbered.push(`\n... (showing lines ${offset}-${end} of ${lines.length}; continue with offset=${end + 1})`);
+    }
+    return numbered.join('\n');
+}
+
+export const readTool: Tool<{ path: string; offset?: number; limit?: number; force?: boolean }> = {
+    name: 'read',
+    description: 'Read a file. Text comes back with line numbers (`     1\t...`, not part of the file); ' +
+        `at most ${DEFAULT_READ_LINES} lines at a time, use offset/limit for more. ` +
+        `Files over ${MAX_READ_BYTES / 1024} KB need a range or force. Images are shown to the model when it supports them; ` +
+        'other binary files are only described.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'Relative path for the file to read from' },
+            offset: { type: 'number', description: 'First line to read, starting at 1 (optional)' },
+            limit: { type: 'number', description: `Number of lines to read (optional, default ${DEFAULT_READ_LINES})` },
+            force: { type: 'boolean', description: `Read a file over ${MAX_READ_BYTES / 1024} KB without a range (optional)` },
+        },
+        required: ['path'],
+    },
+    readOnly: true,
+    async handler({ path, offset, limit, force }, context) {
+        const file = Bun.file(safePath(context, path));
+        if (!(await file.exists())) {
+            throw new Error(`File not found: ${path}`);
+        }
+        const data = await file.bytes();
+
+        const kind = detectFileKind(data);
+        if (kind.kind === 'image') {
+            if (data.byteLength > MAX_IMAGE_BYTES) {
+                return `${path}: ${kind.description} (too large to send, limit ${formatBytes(MAX_IMAGE_BYTES)})`;
+            }
+            return {
+                text: `${path}: ${kind.description}`,
+                images: [{ mimeType: kind.mimeType, data: Buffer.from(data).toString('base64') }],
+            };
+        }
+        if (kind.kind === 'binary') {
+            return `${path}: ${kind.description} (binary, not shown)`;
+        }
+
+        const ranged = offset !== undefined || limit !== undefined;
+        if (data.byteLength > MAX_READ_BYTES && !ranged && !force) {
+            throw new Error(
+                `${path} is ${formatBytes(data.byteLength)} (limit ${formatBytes(MAX_READ_BYTES)}). ` +
+                'Read a range with offset/limit, search it with bash grep, or pass force: true.'
+            );
+        }
+        const lineOffset = Math.max(1, Math.floor(offset ?? 1));
+        const lineLimit = Math.max(1, Math.floor(limit ?? (force ? Infinity : DEFAULT_READ_LINES)));
+        return numberLines(new TextDecoder().decode(data), lineOffset, lineLimit) || '(empty file)';
+    },
+};
+
+export const editTool: Tool<{ path: string; old_content: string; new_content: string; replace_all?: boolean; ignore_whitespace?: boolean }> = {
+    name: 'edit',
+    description: 'Edit file contents. Use for small changes: fix typos, add comments, refactor code.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'Relative path for the file to edit' },
+            old_content: { type: 'string', description: 'Exact text to find (must match exactly)' },
+            new_content: { type: 'string', description: 'Exact replacement text' },
+            replace_all: { type: 'boolean', description: 'Replace every occurrence instead of requiring a unique match (optional)' },
+            ignore_whitespace: { type: 'boolean', description: 'Match whole lines ignoring indentation and spacing (optional)' },
+        },
+        required: ['path', 'old_content', 'new_content'],
+    },
+    destructive: true,
+    async preview({ path, ignore_whitespace, ...replacement }, context) {
+        const before = await readIfExists(safePath(context, path));
+        try {
+            const after = applyReplacement(before, replacement, path, { ignoreWhitespace: ignore_whitespace });
+            return unifiedDiff(path, before, after) || `(no changes to ${path})`;
+        } catch (error: any) {
+            return `(will fail) ${error.message}`;
+        }
+    },
+    touches: ({ path }, context) => [safePath(context, path)],
+    async handler({ path, ignore_whitespace, ...replacement }, context) {
+        const file = safePath(context, path);
+        const content = await Bun.file(file).text();
+        await Bun.write(file, applyReplacement(content, replacement, path, { ignoreWhitespace: ignore_whitespace }));
+        return `Edited ${path}`;
+    },
+};
+
+/**
+ * bash, write, read, edit: the v1 tool set.
+ */
+export function basicTools(options: { dangerousCommands?: string[] } = {}): Tool<any>[] {
+    return [createBashTool(options.dangerousCommands), writeTool, readTool, editTool];
+}
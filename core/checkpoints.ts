@@ -0,0 +1,136 @@
+/**
+ * core/checkpoints.ts
+ *
+ * Undo for file changes, without relying on git.
+ *
+ * Before a mutating tool call runs, the files it declares (Tool.touches) are
+ * snapshotted. Snapshots are grouped by user turn, and only the first one per
+ * file counts, so a checkpoint holds each file as it was before the turn:
+ *
+ *   turn 1 "add a README"   README.md: (did not exist)
+ *   turn 2 "fix the parser" src/parser.ts: <old content>, src/lexer.ts: <old content>
+ *
+ *   /undo      -> restore turn 2's files
+ *   /rewind 2  -> restore turn 2's, then turn 1's (README.md is deleted)
+ *
+ * Only files the tools declare are covered; what a bash command changes
+ * is not. Checkpoints live in memory for the lifetime of the process.
+ */
+
+import { relative } from 'path';
+import { unlink } from 'fs/promises';
+
+// Oldest turns are dropped beyond this
+const MAX_CHECKPOINTS = 50;
+
+export interface Checkpoint {
+    // 1-based, counting every user turn of the process
+    turn: number;
+    prompt: string;
+    createdAt: number;
+    // Absolute path -> content before the turn, or null if the file didn't exist
+    files: Map<string, Uint8Array | null>;
+}
+
+export interface RestoredFile {
+    path: string;
+    // 'deleted' when the file was created during the reverted turns
+    action: 'restored' | 'deleted';
+}
+
+export class CheckpointStore {
+    private checkpoints: Checkpoint[] = [];
+    private turn = 0;
+    private prompt = '';
+
+    /**
+     * Start a new user turn; later snapshots belong to it.
+     */
+    beginTurn(prompt: string): void {
+        this.turn++;
+        this.prompt = prompt;
+    }
+
+    /**
+     * Record the current content of each file, unless this turn already did.
+     */
+    async snapshot(paths: string[]): Promise<void> {
+        let checkpoint = this.checkpoints[this.checkpoints.length - 1];
+        if (!checkpoint || checkpoint.turn !== this.turn) {
+            checkpoint = { turn: this.turn, prompt: this.prompt, createdAt: Date.now(), files: new Map() };
+            this.checkpoints.push(checkpoint);
+            if (this.checkpoints.length > MAX_CHECKPOINTS) {
+                this.checkpoints.shift();
+            }
+        }
+        for (const path of paths) {
+            if (checkpoint.files.has(path)) {
+                continue;
+            }
+            const file = Bun.file(path);
+            checkpoint.files.set(path, await file.exists() ? await file.bytes() : null);
+        }
+    }
+
+    list(): Checkpoint[] {
+        return [...this.checkpoints];
+    }
+
+    /**
+     * Revert the last n turns that changed files, newest first, and forget them.
+     */
+    async rewind(n = 1): Promise<RestoredFile[]> {
+        if (!Number.isInteger(n) || n < 1) {
+            throw new Error(`Expected a positive number of turns, got ${n}`);
+        }
+        if (this.checkpoints.length === 0) {
+            throw new Error('No checkpoints to rewind');
+        }
+        const reverted = this.checkpoints.splice(Math.max(0, this.checkpoints.length - n)).reverse();
+
+        // Older checkpoints overwrite newer ones: the earliest snapshot of a file wins
+        const targets = new Map<string, Uint8Array | null>();
+        for (const checkpoint of reverted) {
+            for (const [path, content] of checkpoint.files) {
+                targets.set(path, content);
+            }
+        }
+        const restored: RestoredFile[] = [];
+        for (const [path, content] of targets) {
+            if (content === null) {
+                await unlink(path).catch(() => undefined);
+                restored.push({ path, action: 'deleted' });
+            } else {
+                await Bun.write(path, content);
+                restored.push({ path, action: 'restored' });
+            }
+        }
+        return restored;
+    }
+}
+
+/**
+ * The /checkpoints listing, newest first:
+ *
+ *   1. turn 4 (3m ago) "fix the parser": src/parser.ts, src/lexer.ts (new)
+ */
+export function renderCheckpoints(checkpoints: Checkpoint[], workspaceDir: string): string {
+    if (checkpoints.length === 0) {
+        return 'No checkpoints yet (they are taken before tools change files)';
+    }
+    return [...checkpoints].reverse().map((checkpoint, i) => {
+        const minutes = Math.round((Date.now() - checkpoint.createdAt) / 60_000);
+        const files = [...checkpoint.files].map(([path, content]) =>
+            relative(workspaceDir, path) + (content === null ? ' (new)' : '')
+        ).join(', ');
+        const prompt = checkpoint.prompt.length > 50 ? checkpoint.prompt.slice(0, 50) + '...' : checkpoint.prompt;
+        return `${i + 1}. turn ${checkpoint.turn} (${minutes}m ago) ${JSON.stringify(prompt)}: ${files}`;
+    }).join('\n');
+}
+
+/**
+ * What the model is told after a rewind, so it doesn't assume its changes are still there.
+ */
+export function renderRestored(restored: RestoredFile[], workspaceDir: string): string {
+    return restored.map(file => `${file.action} ${relative(workspaceDir, file.path)}`).join('\n');
+}
@@ -0,0 +1,104 @@
+/**
+ * core/cli.ts
+ *
+ * Command-line parsing shared by the agents.
+ *
+ *   bun v1_basic_agent.ts                     REPL, new session
+ *   bun v1_basic_agent.ts "task"              one-shot
+ *   bun v1_basic_agent.ts --continue          REPL, latest session in this workspace
+ *   bun v1_basic_agent.ts --resume <id> "..." one-shot on top of a saved session
+ *   echo "task" | bun v1_basic_agent.ts       one-shot, prompt read from stdin
+ *
+ * Output (see core/output.ts):
+ *
+ *   --output-format <fmt>  text (default), json or stream-json, for one-shot runs
+ *
+ * Config flags (see core/config.ts), highest precedence:
+ *
+ *   --model, -m <name>     model to use
+ *   --cwd <dir>            workspace directory (defaults to the current one)
+ *   --config <file>        extra settings file, above user and project settings
+ *   --max-tokens <n>       stop once this run used n tokens (input + output)
+ *   --max-cost <usd>       stop once this run cost this many dollars
+ *   --max-turns <n>        stop after n model requests per prompt
+ */
+
+import { parseArgs } from 'util';
+import { ConfigError } from './config';
+import { OUTPUT_FORMATS, type OutputFormat } from './output';
+
+export interface CliOptions {
+    // Positional arguments joined; empty means REPL mode
+    prompt: string;
+    resume?: string;
+    continue: boolean;
+    model?: string;
+    cwd?: string;
+    config?: string;
+    // NaN when not a number; config validation reports it
+    maxTokens?: number;
+    maxCostUsd?: number;
+    maxTurns?: number;
+    outputFormat: OutputFormat;
+}
+
+const OPTIONS = {
+    resume: { type: 'string', short: 'r' },
+    continue: { type: 'boolean', short: 'c', default: false },
+    model: { type: 'string', short: 'm' },
+    cwd: { type: 'string' },
+    config: { type: 'string' },
+    'max-tokens': { type: 'string' },
+    'max-cost': { type: 'string' },
+    'max-turns': { type: 'string' },
+    'output-format': { type: 'string', default: 'text' },
+} as const;
+
+/**
+ * Print a ConfigError as one line and set exit status 1; rethrow anything else.
+ */
+export function exitOnConfigError(error: unknown): void {
+    if (!(error instanceof ConfigError)) {
+        throw error;
+    }
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+}
+
+/**
+ * A prompt piped in (`echo "fix the build" | bun v1_basic_agent.ts`) makes a
+ * one-shot run; a terminal means the REPL.
+ */
+export async function readPromptFromStdin(): Promise<string> {
+    if (process.stdin.isTTY) {
+        return '';
+    }
+    return (await Bun.stdin.text()).trim();
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+    let parsed;
+    try {
+        parsed = parseArgs({ args: argv, allowPositionals: true, options: OPTIONS });
+    } catch (error: any) {
+        // An unknown flag or a missing value is the user's to fix, like a bad setting
+        throw new ConfigError(error.message);
+    }
+    const { values, positionals } = parsed;
+    const outputFormat = values['output-format'] as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(outputFormat)) {
+        throw new ConfigError(`--output-format must be one of ${OUTPUT_FORMATS.join(', ')} (got ${outputFormat})`);
+    }
+    return {
+        prompt: positionals.join(' '),
+        resume: values.resume,
+        continue: values.continue ?? false,
+        model: values.model,
+        cwd: values.cwd,
+        config: values.config,
+        maxTokens: values['max-tokens'] !== undefined ? Number(values['max-tokens']) : undefined,
+        maxCostUsd: values['max-cost'] !== undefined ? Number(values['max-cost']) : undefined,
+        maxTurns: values['max-turns'] !== undefined ? Number(values['max-turns']) : undefined,
+        outputFormat,
+    };
+}
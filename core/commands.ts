@@ -0,0 +1,271 @@
+/**
+ * core/commands.ts
+ *
+ * Slash commands for the REPL: built-ins, plus prompt templates the team
+ * keeps in the repo.
+ *
+ *   You: /review core/agent.ts
+ *        └─ .learn-claude-code/commands/review.md, with $ARGUMENTS = "core/agent.ts",
+ *           is sent to the model as the prompt
+ *
+ * A template is a markdown file; its name is the command. Frontmatter is
+ * optional:
+ *
+ *   ---
+ *   description: Review a file for bugs and style
+ *   argument-hint: <path>
+ *   allowed-tools: read, grep, glob, bash(git diff*)
+ *   ---
+ *   Review $ARGUMENTS. List bugs first, then style nits, with line numbers.
+ *
+ *   | Key           | Meaning                                                      |
+ *   |---------------|--------------------------------------------------------------|
+ *   | description   | shown by /help                                               |
+ *   | argument-hint | shown by /help after the name                                |
+ *   | allowed-tools | permission patterns (see permissions.ts); while the command  |
+ *   |               | runs the model sees only these tools and may only make       |
+ *   |               | matching calls                                               |
+ *
+ * Every `$ARGUMENTS` is replaced by the text after the command; a template
+ * without one gets the arguments appended. Templates are read from
+ * ~/.learn-claude-code/commands (user) and <workspace>/.learn-claude-code/commands
+ * (project), project first; built-ins can't be overridden.
+ */
+
+import { readdir } from 'fs/promises';
+import { basename, join } from 'path';
+import type { Agent } from './agent';
+import { renderCheckpoints } from './checkpoints';
+import { ConfigError, providerFromConfig, renderConfig, type LoadedConfig } from './config';
+import { parseFrontmatter } from './frontmatter';
+import { renderInstructions } from './instructions';
+import { createProvider, parseModelSpec } from './provider';
+import { renderSessionList, Session } from './session';
+import { PROJECT_SETTINGS_DIR, userConfigDir } from './settings';
+
+export type CommandSource = 'built-in' | 'project' | 'user';
+
+export interface CommandContext {
+    agent: Agent;
+    loaded: LoadedConfig;
+    // For /help
+    commands: CommandRegistry;
+}
+
+export interface CommandResult {
+    // Printed for the user
+    output?: string;
+    // Sent to the model as the next prompt
+    prompt?: string;
+    // Limits the tools for that prompt (see SendOptions)
+    allowedTools?: string[];
+}
+
+export interface SlashCommand {
+    name: string;
+    description: string;
+    // Shown after the name in /help, e.g. "[provider:]name"
+    argumentHint?: string;
+    source: CommandSource;
+    run: (args: string, context: CommandContext) => Promise<CommandResult>;
+}
+
+export const COMMANDS_DIR = 'commands';
+const COMMAND_NAME = /^[\w-]+$/;
+// Characters of each message /history shows
+const HISTORY_PREVIEW_CHARS = 100;
+
+export class CommandRegistry {
+    private commands = new Map<string, SlashCommand>();
+
+    constructor(commands: SlashCommand[] = []) {
+        for (const command of commands) {
+            this.register(command);
+        }
+    }
+
+    register(command: SlashCommand): this {
+        if (this.commands.has(command.name)) {
+            throw new Error(`Command already registered: /${command.name}`);
+        }
+        this.commands.set(command.name, command);
+        return this;
+    }
+
+    get(name: string): SlashCommand | undefined {
+        return this.commands.get(name);
+    }
+
+    list(): SlashCommand[] {
+        return [...this.commands.values()];
+    }
+
+    /**
+     * "/name args" as the command name and its arguments. Anything else, like
+     * a path ("/etc/hosts is empty?"), is a prompt.
+     */
+    parse(input: string): { name: string; args: string } | undefined {
+        const match = input.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+        return match ? { name: match[1]!, args: (match[2] ?? '').trim() } : undefined;
+    }
+
+    render(): string {
+        const rows = this.list().map(command => {
+            const usage = `/${command.name}${command.argumentHint ? ` ${command.argumentHint}` : ''}`;
+            const source = command.source === 'built-in' ? '' : ` (${command.source})`;
+            return `  ${usage.padEnd(28)} ${command.description}${source}`;
+        });
+        rows.push(`  ${'exit'.padEnd(28)} leave the REPL (also quit, q)`);
+        return `Commands:\n${rows.join('\n')}`;
+    }
+}
+
+/**
+ * The template with its arguments filled in.
+ */
+export function expandTemplate(template: string, args: string): string {
+    if (template.includes('$ARGUMENTS')) {
+        return template.replaceAll('$ARGUMENTS', args);
+    }
+    return args ? `${template.trimEnd()}\n\nArguments: ${args}` : template;
+}
+
+/**
+ * "read, grep, bash(git diff*, git log*)" split at the commas outside parentheses.
+ */
+function parseAllowedTools(value: string, source: string): string[] {
+    const patterns = value.split(/,(?![^(]*\))/).map(pattern => pattern.trim()).filter(Boolean);
+    for (const pattern of patterns) {
+        if (!/^\w+(?:\(.*\))?$/.test(pattern)) {
+            throw new ConfigError(`${source}: allowed-tools entry "${pattern}" is not a tool name or pattern like bash(git *)`);
+        }
+    }
+    return patterns;
+}
+
+async function readTemplate(path: string, source: CommandSource): Promise<SlashCommand> {
+    const { attributes, body } = parseFrontmatter(await Bun.file(path).text());
+    for (const key of ['description', 'argument-hint', 'allowed-tools']) {
+        if (attributes[key] !== undefined && typeof attributes[key] !== 'string') {
+            throw new ConfigError(`${path}: ${key} must be text`);
+        }
+    }
+    const template = body.trim();
+    if (!template) {
+        throw new ConfigError(`${path}: the template is empty`);
+    }
+    const allowedTools = attributes['allowed-tools'] ? parseAllowedTools(attributes['allowed-tools'] as string, path) : undefined;
+    return {
+        name: basename(path, '.md'),
+        description: (attributes.description as string | undefined) || template.split('\n')[0]!.slice(0, 60),
+        argumentHint: attributes['argument-hint'] as string | undefined,
+        source,
+        run: async args => ({ prompt: expandTemplate(template, args), allowedTools }),
+    };
+}
+
+async function readTemplates(dir: string, source: CommandSource): Promise<SlashCommand[]> {
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const commands: SlashCommand[] = [];
+    for (const name of names.filter(name => name.endsWith('.md')).sort()) {
+        if (!COMMAND_NAME.test(basename(name, '.md'))) {
+            console.warn(`⚠️  Skipping ${join(dir, name)}: command names use letters, digits, - and _`);
+            continue;
+        }
+        commands.push(await readTemplate(join(dir, name), source));
+    }
+    return commands;
+}
+
+/**
+ * Project templates, then user templates the project doesn't define.
+ */
+export async function loadCustomCommands(workspaceDir: string, userDir: string = userConfigDir()): Promise<SlashCommand[]> {
+    const project = await readTemplates(join(workspaceDir, PROJECT_SETTINGS_DIR, COMMANDS_DIR), 'project');
+    const user = await readTemplates(join(userDir, COMMANDS_DIR), 'user');
+    return [...project, ...user.filter(command => !project.some(other => other.name === command.name))];
+}
+
+/**
+ * One line per user and assistant message; tool results are left out.
+ */
+export function renderHistory(agent: Agent, last?: number): string {
+    const lines: string[] = [];
+    agent.messages.forEach((message, i) => {
+        if (message.role !== 'user' && message.role !== 'assistant') {
+            return;
+        }
+        let text = typeof message.content === 'string'
+            ? message.content
+            : (message.content ?? []).map(part => part.type === 'text' ? part.text : `[${part.type}]`).join(' ');
+        if (message.role === 'assistant' && message.tool_calls?.length) {
+            const calls = message.tool_calls.map(toolCall => toolCall.type === 'function' ? toolCall.function.name : toolCall.type);
+            text = `${text} 🔧 ${calls.join(', ')}`.trim();
+        }
+        text = text.replace(/\s+/g, ' ').trim();
+        if (text.length > HISTORY_PREVIEW_CHARS) {
+            text = `${text.slice(0, HISTORY_PREVIEW_CHARS)}...`;
+        }
+        lines.push(`${String(i).padStart(4)}  ${message.role === 'user' ? 'You' : 'Assistant'}: ${text}`);
+    });
+    if (lines.length === 0) {
+        return 'No messages yet';
+    }
+    return (last ? lines.slice(-last) : lines).join('\n');
+}
+
+function builtin(name: string, description: string, run: SlashCommand['run'], argumentHint?: string): SlashCommand {
+    return { name, description, argumentHint, source: 'built-in', run };
+}
+
+export const BUILTIN_COMMANDS: SlashCommand[] = [
+    builtin('help', 'list the commands', async (_args, { commands }) => ({ output: commands.render() })),
+    builtin('clear', 'start the conversation over (same session)', async (_args, { agent }) => {
+        await agent.clear();
+        return { output: 'Conversation cleared' };
+    }),
+    builtin('history', 'show the conversation, or its last n messages', async (args, { agent }) => {
+        const last = args ? Number(args) : undefined;
+        if (last !== undefined && !(Number.isInteger(last) && last > 0)) {
+            throw new Error('Usage: /history [n]');
+        }
+        return { output: renderHistory(agent, last) };
+    }, '[n]'),
+    builtin('todos', 'show the todo list', async (_args, { agent }) => ({ output: agent.todos?.render() ?? 'Todos are not enabled for this agent' })),
+    builtin('model', 'show or switch the model', async (args, { agent, loaded }) => {
+        if (args) {
+            const spec = parseModelSpec(args, agent.provider.name);
+            // The configured endpoint belongs to the configured provider; others use their defaults
+            const provider = spec.provider === agent.provider.name
+                ? agent.provider
+                : spec.provider === loaded.config.provider ? providerFromConfig(loaded.config) : createProvider(spec.provider);
+            agent.useModel(spec.model, provider);
+        }
+        return { output: `Model: ${agent.provider.name}:${agent.model}` };
+    }, '[provider:]name'),
+    builtin('compact', 'summarize the history', async (_args, { agent }) => ({ output: (await agent.compact(0)) ? undefined : 'Nothing to compact' })),
+    builtin('sessions', 'list saved sessions', async () => ({ output: renderSessionList(await Session.list()) })),
+    builtin('config', 'show the settings and where they came from', async (_args, { loaded }) => ({ output: renderConfig(loaded) })),
+    builtin('cost', 'show token usage and cost', async (_args, { agent }) => ({ output: agent.usage?.render() ?? 'Usage is not tracked for this agent' })),
+    builtin('instructions', 'show the loaded instruction files', async (_args, { agent }) => ({ output: renderInstructions(agent.instructions) })),
+    builtin('mcp', 'show MCP servers and their tools', async (_args, { agent }) => ({ output: agent.mcp?.render() ?? 'MCP is not enabled for this agent' })),
+    builtin('checkpoints', 'list file checkpoints', async (_args, { agent }) => ({ output: renderCheckpoints(agent.checkpoints?.list() ?? [], agent.workspaceDir) })),
+    builtin('undo', "revert the last turn's file changes", async (_args, { agent }) => ({ output: await agent.rewind(1) })),
+    builtin('rewind', 'revert the file changes of the last n turns', async (args, { agent }) => ({ output: await agent.rewind(Number(args || 1)) }), '[n]'),
+];
+
+/**
+ * Built-ins plus the workspace's templates. A template named like a
+ * built-in is skipped with a warning.
+ */
+export async function loadCommands(workspaceDir: string): Promise<CommandRegistry> {
+    const registry = new CommandRegistry(BUILTIN_COMMANDS);
+    for (const command of await loadCustomCommands(workspaceDir)) {
+        if (registry.get(command.name)) {
+            console.warn(`⚠️  Skipping ${command.source} command /${command.name}: it is a built-in`);
+            continue;
+        }
+        registry.register(command);
+    }
+    return registry;
+}
@@ -0,0 +1,240 @@
+/**
+ * core/compaction.ts
+ *
+ * Keeps a long conversation inside the model's context window.
+ *
+ * Before:  [system] [user] [assistant+tools] [tool] [tool] ... [user] [assistant] ...
+ *           ^kept   \________ old turns, mostly tool output _______/ \__ recent __/
+ *
+ * After:   [system] [user: summary + current todos] [recent turns...]
+ *
+ * The summary is written by the model itself. The cut point is always
+ * placed on a non-tool message, so an assistant tool_call is never
+ * separated from its tool results.
+ *
+ * Token counts are estimates (~4 characters per token). That is accurate
+ * enough to decide WHEN to compact; the API still has the final word. When
+ * it says no anyway (context overflow), trimToolOutputs shortens old tool
+ * results, which are usually most of the history, and the call is retried.
+ */
+
+import type { ChatCompletionMessageParam } from 'openai/resources';
+import type { Provider } from './provider';
+import type { TokenUsage } from './usage';
+import { withRetry } from './retry';
+
+// Context windows for common models, matched by prefix (longest prefix wins)
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    'gpt-4.1': 1_000_000,
+    'gpt-4o': 128_000,
+    'gpt-4-turbo': 128_000,
+    'gpt-4': 8_192,
+    'gpt-3.5-turbo': 16_385,
+    'gpt-5': 400_000,
+    'o1': 200_000,
+    'o3': 200_000,
+    'o4-mini': 200_000,
+    'claude': 200_000,
+    'deepseek': 64_000,
+    'qwen': 32_768,
+    'glm': 128_000,
+    'kimi': 128_000,
+};
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+// Compact once the history passes this share of the window...
+const COMPACT_THRESHOLD = 0.8;
+// ...keeping roughly this share of it as verbatim recent turns
+const KEEP_RECENT_SHARE = 0.3;
+// Per tool result, when feeding old turns to the summarizer
+const SUMMARY_INPUT_CHARS_PER_MESSAGE = 2_000;
+// Rough cost of one image part; providers charge by resolution
+const IMAGE_TOKENS = 1_000;
+
+const SUMMARY_PROMPT = `Summarize the conversation below so the work can continue without it.
+Include:
+- The user's goals and any constraints they stated
+- Decisions made and why
+- Files read, created or changed, with the important details
+- Commands run and their notable results or errors
+- What was in progress and what remains
+Be concise but keep every detail needed to continue. Output only the summary.`;
+
+/**
+ * Context window for a model. MODEL_CONTEXT_WINDOWS ("model=tokens,...")
+ * overrides the built-in table.
+ */
+export function contextWindowFor(model: string): number {
+    const overrides = (process.env.MODEL_CONTEXT_WINDOWS || '')
+        .split(',')
+        .map(entry => entry.split('='))
+        .filter((pair): pair is [string, string] => pair.length === 2);
+    for (const [name, tokens] of overrides) {
+        if (name.trim() === model && Number(tokens) > 0) {
+            return Number(tokens);
+        }
+    }
+
+    const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+        .filter(key => model.toLowerCase().startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? MODEL_CONTEXT_WINDOWS[prefix]! : DEFAULT_CONTEXT_WINDOW;
+}
+
+function messageText(message: ChatCompletionMessageParam): string {
+    let text = '';
+    if (typeof message.content === 'string') {
+        text += message.content;
+    } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+            // Images are costed separately; their base64 is not text the model reads
+            text += 'text' in part ? part.text : part.type === 'image_url' ? '[image]' : JSON.stringify(part);
+        }
+    }
+    if (message.role === 'assistant' && message.tool_calls) {
+        text += JSON.stringify(message.tool_calls);
+    }
+    return text;
+}
+
+function imageCount(message: ChatCompletionMessageParam): number {
+    return Array.isArray(message.content) ? message.content.filter(part => part.type === 'image_url').length : 0;
+}
+
+export function estimateTokens(message: ChatCompletionMessageParam): number {
+    // ~4 chars per token, plus a few tokens of per-message framing
+    return Math.ceil(messageText(message).length / 4) + 4 + imageCount(message) * IMAGE_TOKENS;
+}
+
+export function estimateTotalTokens(messages: ChatCompletionMessageParam[]): number {
+    return messages.reduce((total, message) => total + estimateTokens(message), 0);
+}
+
+export function needsCompaction(messages: ChatCompletionMessageParam[], model: string): boolean {
+    return estimateTotalTokens(messages) > contextWindowFor(model) * COMPACT_THRESHOLD;
+}
+
+/**
+ * Index where the verbatim "recent" part starts: as far back as the
+ * keep budget allows, then moved forward onto a non-tool message.
+ */
+function findCutIndex(messages: ChatCompletionMessageParam[], keepTokens: number): number {
+    let cut = messages.length;
+    let kept = 0;
+    while (cut > 0) {
+        const tokens = estimateTokens(messages[cut - 1]!);
+        if (kept + tokens > keepTokens) {
+            break;
+        }
+        kept += tokens;
+        cut--;
+    }
+    while (cut < messages.length && messages[cut]!.role === 'tool') {
+        cut++;
+    }
+    return cut;
+}
+
+function transcript(messages: ChatCompletionMessageParam[]): string {
+    return messages.map(message => {
+        let text = messageText(message);
+        if (text.length > SUMMARY_INPUT_CHARS_PER_MESSAGE) {
+            text = text.slice(0, SUMMARY_INPUT_CHARS_PER_MESSAGE) + `\n... (${text.length - SUMMARY_INPUT_CHARS_PER_MESSAGE} more chars)`;
+        }
+        return `[${message.role}]\n${text}`;
+    }).join('\n\n');
+}
+
+export interface CompactOptions {
+    model: string;
+    // Live todo list (TodoManager.render()), carried over verbatim
+    todos?: string;
+    // Budget for verbatim recent turns; defaults to a share of the window, /compact passes 0
+    keepTokens?: number;
+    // The summary request costs tokens too
+    onUsage?: (usage: TokenUsage) => void;
+    // Where the "Compacted context" line goes; the agent passes its own logger
+    log?: (text: string) => void;
+    // Aborts the summary request along with the run (Esc in the REPL)
+    signal?: AbortSignal;
+}
+
+/**
+ * Replace older turns with a model-written summary, in place.
+ * Returns false when there was nothing old enough to summarize.
+ */
+export async function compactMessages(
+    provider: Provider,
+    messages: ChatCompletionMessageParam[],
+    options: CompactOptions,
+): Promise<boolean> {
+    const keepTokens = options.keepTokens ?? contextWindowFor(options.model) * KEEP_RECENT_SHARE;
+    const cut = findCutIndex(messages, keepTokens);
+
+    const older = messages.slice(0, cut);
+    const systemMessages = older.filter(m => m.role === 'system');
+    const toSummarize = older.filter(m => m.role !== 'system');
+    if (toSummarize.length === 0) {
+        return false;
+    }
+
+    const before = estimateTotalTokens(messages);
+    const response = await withRetry(() => provider.complete({
+        model: options.model,
+        messages: [
+            { role: 'system', content: SUMMARY_PROMPT },
+            { role: 'user', content: transcript(toSummarize) },
+        ],
+        signal: options.signal,
+    }, { stream: false }), { signal: options.signal });
+    if (response?.usage) {
+        options.onUsage?.(response.usage);
+    }
+    const summary = response?.message.content;
+    if (!summary) {
+        throw new Error('Compaction failed: the model returned an empty summary');
+    }
+
+    let content = `[Summary of the earlier conversation]\n${summary}`;
+    if (options.todos) {
+        content += `\n\nCurrent todos:\n${options.todos}`;
+    }
+    messages.splice(0, cut, ...systemMessages, { role: 'user', content });
+
+    (options.log ?? console.log)(`📦 Compacted context: ~${before} -> ~${estimateTotalTokens(messages)} tokens`);
+    return true;
+}
+
+/**
+ * Shorten tool results older than the latest tool round to their first and
+ * last maxChars / 2 characters, and drop old images. The latest round is
+ * what the model is working on, so it stays whole. Returns how many
+ * messages changed; 0 means there is nothing left to trim at this size.
+ */
+export function trimToolOutputs(messages: ChatCompletionMessageParam[], maxChars: number): number {
+    let latestRound = messages.length;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i]!;
+        if (message.role === 'assistant' && message.tool_calls?.length) {
+            latestRound = i;
+            break;
+        }
+    }
+
+    let trimmed = 0;
+    for (let i = 0; i < latestRound; i++) {
+        const message = messages[i]!;
+        if (message.role === 'tool' && typeof message.content === 'string' && message.content.length > maxChars) {
+            const half = Math.floor(maxChars / 2);
+            const cut = message.content.length - 2 * half;
+            message.content = `${message.content.slice(0, half)}\n... [${cut} chars of old tool output trimmed to fit the context window] ...\n${message.content.slice(-half)}`;
+            trimmed++;
+        } else if (message.role === 'user' && imageCount(message) > 0 && Array.isArray(message.content)) {
+            message.content = message.content.map(part =>
+                part.type === 'image_url' ? { type: 'text' as const, text: '[image removed to fit the context window]' } : part
+            );
+            trimmed++;
+        }
+    }
+    return trimmed;
+}
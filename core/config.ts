@@ -0,0 +1,431 @@
+/**
+ * core/config.ts
+ *
+ * One typed, validated configuration, merged from layers. Later layers win:
+ *
+ *   | Layer   | Where                                         |
+ *   |---------|-----------------------------------------------|
+ *   | default | DEFAULT_CONFIG below                          |
+ *   | user    | ~/.learn-claude-code/settings.json            |
+ *   | project | <workspace>/.learn-claude-code/settings.json  |
+ *   | env     | AI_PROVIDER, AI_MODEL, AI_FALLBACK_MODELS,    |
+ *   |         | BASE_URL, API_KEY, PERMISSION_MODE,           |
+ *   |         | PERMISSION_ALLOW                              |
+ *   | file    | --config <path>                               |
+ *   | flags   | --model, --cwd, --max-tokens, --max-cost,     |
+ *   |         | --max-turns                                   |
+ *
+ * Files use the same shape as AgentConfig (any subset of it):
+ *
+ *   {
+ *     "provider": "openai",
+ *     "model": "gpt-4o",
+ *     "tools": { "disabled": ["bgStart"] },
+ *     "limits": { "maxTodos": 30, "maxCostUsd": 0.5 },
+ *     "permissions": { "mode": "allow-list", "allow": ["bash(git status*)"] },
+ *     "prices": { "my-finetune": { "input": 3, "output": 12 } },
+ *     "mcpServers": { "db": { "command": "db-mcp", "args": ["--readonly"] } }
+ *   }
+ *
+ * Objects merge key by key; arrays and scalars replace. Every value
+ * remembers the layer it came from, which /config prints. A model given as
+ * "anthropic:claude-sonnet-4-5" sets the provider too.
+ *
+ * The project file comes with the repo, so it can't set workspaceDir,
+ * baseUrl (where API_KEY is sent), permissions or mcpServers.
+ */
+
+import { stat } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { DEFAULT_PARALLEL_TOOL_CALLS } from './agent';
+import { DANGEROUS_COMMANDS } from './builtin_tools';
+import { PERMISSION_MODES, PermissionManager, type PermissionMode } from './permissions';
+import { createProvider, parseModelSpec, PROVIDERS, type Provider, type ProviderName } from './provider';
+import { ConfigError, PROJECT_SETTINGS_DIR, projectSettingsPath, userConfigDir } from './settings';
+import { DEFAULT_MAX_RETRIES } from './retry';
+import type { McpServersConfig } from './mcp';
+import type { Tool } from './tools';
+import { UsageTracker, type PriceTable } from './usage';
+
+export { ConfigError };
+
+export interface AgentConfig {
+    // Which API the model is behind (see provider.ts)
+    provider: ProviderName;
+    model: string;
+    // Tried in order when the model keeps failing; "provider:model" or a bare name
+    fallbackModels: string[];
+    // The provider's endpoint; its default when unset
+    baseUrl?: string;
+    apiKey?: string;
+    // Root the file tools are confined to
+    workspaceDir: string;
+    tools: {
+        // When set, only these tools are registered
+        enabled?: string[];
+        disabled: string[];
+    };
+    limits: {
+        maxTodos: number;
+        // v2 reminds the model after this many tool rounds without todoWrite
+        nagAfterRounds: number;
+        // bash refuses commands containing any of these
+        dangerousCommands: string[];
+        // Read-only tool calls run at once
+        parallelToolCalls: number;
+        // Retries per model for rate limits, overload and network errors
+        maxRetries: number;
+        // Per-run budgets; the loop stops once either is used up
+        maxTokens?: number;
+        maxCostUsd?: number;
+        // Model requests per prompt before the loop stops
+        maxTurns?: number;
+    };
+    permissions: {
+        mode: PermissionMode;
+        // Patterns such as "bash(git status*)" for allow-list mode
+        allow: string[];
+    };
+    // Dollars per million tokens by model prefix, over DEFAULT_PRICES (see usage.ts)
+    prices: PriceTable;
+    // External tool servers by name (see mcp.ts)
+    mcpServers: McpServersConfig;
+}
+
+export const DEFAULT_CONFIG: AgentConfig = {
+    provider: 'openai',
+    model: '',
+    fallbackModels: [],
+    workspaceDir: process.cwd(),
+    tools: { disabled: [] },
+    limits: {
+        maxTodos: 20,
+        nagAfterRounds: 10,
+        dangerousCommands: DANGEROUS_COMMANDS,
+        parallelToolCalls: DEFAULT_PARALLEL_TOOL_CALLS,
+        maxRetries: DEFAULT_MAX_RETRIES,
+    },
+    permissions: { mode: 'auto-read', allow: [] },
+    prices: {},
+    mcpServers: {},
+};
+
+export interface ConfigFlags {
+    model?: string;
+    cwd?: string;
+    config?: string;
+    maxTokens?: number;
+    maxCostUsd?: number;
+    maxTurns?: number;
+}
+
+export interface LoadedConfig {
+    config: AgentConfig;
+    // Dotted key ("limits.maxTodos") -> layer it came from
+    sources: Record<string, string>;
+}
+
+type Layer = Record<string, any>;
+
+type Check = (value: unknown) => string | undefined;
+
+const string: Check = value => typeof value === 'string' ? undefined : 'a string';
+const positiveInteger: Check = value => Number.isInteger(value) && (value as number) > 0 ? undefined : 'a positive integer';
+const positiveNumber: Check = value => typeof value === 'number' && value > 0 ? undefined : 'a positive number';
+const nonNegativeInteger: Check = value => Number.isInteger(value) && (value as number) >= 0 ? undefined : 'a non-negative integer';
+const stringArray: Check = value => Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : 'an array of strings';
+const providerName: Check = value => PROVIDERS.includes(value as ProviderName) ? undefined : `one of ${PROVIDERS.join(', ')}`;
+const permissionMode: Check = value => PERMISSION_MODES.includes(value as PermissionMode) ? undefined : `one of ${PERMISSION_MODES.join(', ')}`;
+const priceTable: Check = value => {
+    const isPrice = (price: any) => typeof price === 'object' && price !== null
+        && ['input', 'output', 'cachedInput'].every(key => price[key] === undefined || (typeof price[key] === 'number' && price[key] >= 0))
+        && price.input !== undefined && price.output !== undefined
+        && Object.keys(price).every(key => ['input', 'output', 'cachedInput'].includes(key));
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isPrice)
+        ? undefined
+        : 'an object of { "input", "output", "cachedInput"? } dollar prices per million tokens';
+};
+const isStringRecord = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+const mcpServers: Check = value => {
+    const isServer = (server: any) => typeof server === 'object' && server !== null
+        && (typeof server.command === 'string' ? typeof server.url === 'undefined' : typeof server.url === 'string')
+        && (server.args === undefined || stringArray(server.args) === undefined)
+        && (server.env === undefined || isStringRecord(server.env))
+        && (server.headers === undefined || isStringRecord(server.headers))
+        && (server.cwd === undefined || typeof server.cwd === 'string')
+        && (server.timeout === undefined || positiveNumber(server.timeout) === undefined);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isServer)
+        ? undefined
+        : 'an object of servers, each { "command", "args"?, "env"?, "cwd"? } or { "url", "headers"? }';
+};
+
+// Every leaf key and what it must be; nested objects are checked key by key
+const SCHEMA: Record<string, Check | Record<string, Check>> = {
+    provider: providerName,
+    model: string,
+    fallbackModels: stringArray,
+    baseUrl: string,
+    apiKey: string,
+    workspaceDir: string,
+    tools: { enabled: stringArray, disabled: stringArray },
+    limits: { maxTodos: positiveInteger, nagAfterRounds: positiveInteger, dangerousCommands: stringArray, parallelToolCalls: positiveInteger, maxRetries: nonNegativeInteger, maxTokens: positiveInteger, maxCostUsd: positiveNumber, maxTurns: positiveInteger },
+    permissions: { mode: permissionMode, allow: stringArray },
+    // These two are checked as a whole; their entries merge one by one like section keys
+    prices: priceTable,
+    mcpServers,
+};
+
+// Refused in the project layer, which comes with whatever repo was cloned
+const USER_ONLY_KEYS = ['baseUrl', 'permissions', 'mcpServers'];
+
+/**
+ * Keep the config keys of a settings object and check their types. Other
+ * top-level keys ("sandbox", ...) belong to other features and are skipped;
+ * unknown keys inside a config section are typos and rejected.
+ */
+function validateLayer(raw: unknown, source: string): Layer {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new ConfigError(`${source}: expected a JSON object`);
+    }
+    const layer: Layer = {};
+    for (const [key, check] of Object.entries(SCHEMA)) {
+        const value = (raw as Layer)[key];
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof check === 'function') {
+            const expected = check(value);
+            if (expected) {
+                throw new ConfigError(`${source}: ${key} must be ${expected}`);
+            }
+            layer[key] = value;
+            continue;
+        }
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new ConfigError(`${source}: ${key} must be an object`);
+        }
+        for (const [subkey, subvalue] of Object.entries(value)) {
+            const subcheck = check[subkey];
+            if (!subcheck) {
+                throw new ConfigError(`${source}: unknown key ${key}.${subkey} (expected one of ${Object.keys(check).join(', ')})`);
+            }
+            const expected = subcheck(subvalue);
+            if (expected) {
+                throw new ConfigError(`${source}: ${key}.${subkey} must be ${expected}`);
+            }
+        }
+        layer[key] = value;
+    }
+    return layer;
+}
+
+async function readLayer(path: string, source: string, required = false): Promise<Layer> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+        if (required) {
+            throw new ConfigError(`Config file not found: ${path}`);
+        }
+        return {};
+    }
+    let raw: unknown;
+    try {
+        raw = await file.json();
+    } catch (error: any) {
+        throw new ConfigError(`Invalid JSON in ${path}: ${error.message}`);
+    }
+    const layer = validateLayer(raw, source);
+    // A relative workspace in a file is relative to that file's directory
+    if (typeof layer.workspaceDir === 'string') {
+        layer.workspaceDir = resolve(dirname(path), layer.workspaceDir);
+    }
+    return layer;
+}
+
+function envLayer(): Layer {
+    const env = process.env;
+    const layer: Layer = {};
+    if (env.AI_PROVIDER) {
+        layer.provider = env.AI_PROVIDER;
+    }
+    if (env.AI_MODEL) {
+        layer.model = env.AI_MODEL;
+    }
+    if (env.AI_FALLBACK_MODELS) {
+        layer.fallbackModels = env.AI_FALLBACK_MODELS.split(',').map(m => m.trim()).filter(Boolean);
+    }
+    if (env.BASE_URL) {
+        layer.baseUrl = env.BASE_URL;
+    }
+    if (env.API_KEY) {
+        layer.apiKey = env.API_KEY;
+    }
+    const permissions: Layer = {};
+    if (env.PERMISSION_MODE) {
+        permissions.mode = env.PERMISSION_MODE;
+    }
+    if (env.PERMISSION_ALLOW) {
+        permissions.allow = env.PERMISSION_ALLOW.split(',').map(p => p.trim()).filter(Boolean);
+    }
+    if (Object.keys(permissions).length > 0) {
+        layer.permissions = permissions;
+    }
+    return validateLayer(layer, 'env');
+}
+
+/**
+ * Merge a layer into the config in place, recording where each leaf came from.
+ */
+function applyLayer(config: Layer, sources: Record<string, string>, layer: Layer, source: string): void {
+    for (const [key, value] of Object.entries(layer)) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            config[key] = { ...config[key] };
+            for (const [subkey, subvalue] of Object.entries(value)) {
+                config[key][subkey] = subvalue;
+                sources[`${key}.${subkey}`] = source;
+            }
+        } else {
+            config[key] = value;
+            sources[key] = source;
+        }
+    }
+}
+
+function defaultSources(config: Layer, prefix = ''): Record<string, string> {
+    const sources: Record<string, string> = {};
+    for (const [key, value] of Object.entries(config)) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            Object.assign(sources, defaultSources(value, `${key}.`));
+        } else {
+            sources[prefix + key] = 'default';
+        }
+    }
+    return sources;
+}
+
+/**
+ * Load and merge every layer. The workspace is settled first (flag, --config
+ * file, user file, cwd), since the project layer lives inside it.
+ */
+export async function loadConfig(flags: ConfigFlags = {}, userDir: string = userConfigDir()): Promise<LoadedConfig> {
+    const userPath = resolve(userDir, 'settings.json');
+    const user = await readLayer(userPath, `user (${userPath})`);
+    const explicitPath = flags.config ? resolve(flags.config) : undefined;
+    const explicit = explicitPath ? await readLayer(explicitPath, `--config ${explicitPath}`, true) : {};
+    const flagLayer = validateLayer({
+        ...(flags.model ? { model: flags.model } : {}),
+        ...(flags.cwd ? { workspaceDir: resolve(flags.cwd) } : {}),
+        ...(flags.maxTokens !== undefined || flags.maxCostUsd !== undefined || flags.maxTurns !== undefined ? {
+            limits: {
+                ...(flags.maxTokens !== undefined ? { maxTokens: flags.maxTokens } : {}),
+                ...(flags.maxCostUsd !== undefined ? { maxCostUsd: flags.maxCostUsd } : {}),
+                ...(flags.maxTurns !== undefined ? { maxTurns: flags.maxTurns } : {}),
+            },
+        } : {}),
+    }, 'flags');
+
+    const workspaceDir: string = flagLayer.workspaceDir ?? explicit.workspaceDir ?? user.workspaceDir ?? DEFAULT_CONFIG.workspaceDir;
+    if (!(await stat(workspaceDir).then(info => info.isDirectory(), () => false))) {
+        throw new ConfigError(`Workspace directory does not exist: ${workspaceDir}`);
+    }
+    const projectPath = projectSettingsPath(workspaceDir);
+    const project = await readLayer(projectPath, `project (${PROJECT_SETTINGS_DIR}/settings.json)`);
+    if (project.workspaceDir !== undefined) {
+        throw new ConfigError(`project (${projectPath}): workspaceDir can't be set from inside the workspace`);
+    }
+    // A cloned repo must not pick where the API key goes, approve its own tool calls or start processes
+    for (const key of USER_ONLY_KEYS) {
+        if (project[key] !== undefined) {
+            throw new ConfigError(`project (${projectPath}): ${key} can only be set in the user settings file, the environment or --config`);
+        }
+    }
+
+    const config: Layer = structuredClone(DEFAULT_CONFIG);
+    const sources = defaultSources(config);
+    applyLayer(config, sources, user, 'user');
+    applyLayer(config, sources, project, 'project');
+    applyLayer(config, sources, envLayer(), 'env');
+    applyLayer(config, sources, explicit, '--config');
+    applyLayer(config, sources, flagLayer, 'flags');
+
+    if (!config.model) {
+        throw new ConfigError('No model configured: pass --model, set AI_MODEL, or add "model" to a settings file');
+    }
+    const spec = parseModelSpec(config.model, config.provider);
+    if (spec.model !== config.model) {
+        config.provider = spec.provider;
+        config.model = spec.model;
+        sources.provider = sources.model!;
+    }
+    return { config: config as AgentConfig, sources };
+}
+
+/**
+ * Drop the tools the config disables, or keep only the enabled ones. Names
+ * an agent doesn't have are ignored, so one user file can serve v1 and v2.
+ */
+export function filterTools(tools: Tool<any>[], config: AgentConfig): Tool<any>[] {
+    const { enabled, disabled } = config.tools;
+    return tools.filter(tool => (!enabled || enabled.includes(tool.name)) && !disabled.includes(tool.name));
+}
+
+export function providerFromConfig(config: AgentConfig): Provider {
+    return createProvider(config.provider, { apiKey: config.apiKey, baseUrl: config.baseUrl });
+}
+
+export function permissionsFromConfig(config: AgentConfig): PermissionManager {
+    return new PermissionManager({ mode: config.permissions.mode, allowPatterns: config.permissions.allow });
+}
+
+export function usageFromConfig(config: AgentConfig): UsageTracker {
+    return new UsageTracker({
+        prices: config.prices,
+        budget: { maxTokens: config.limits.maxTokens, maxCostUsd: config.limits.maxCostUsd },
+    });
+}
+
+function formatValue(key: string, value: unknown): string {
+    if (key === 'apiKey' && typeof value === 'string') {
+        // Enough to tell keys apart, not enough to leak one
+        return value.length > 8 ? `${value.slice(0, 3)}...${value.slice(-4)}` : '***';
+    }
+    if (typeof value === 'object' && value !== null && ('env' in value || 'headers' in value)) {
+        // MCP server env and headers tend to hold tokens
+        const hide = (values: Record<string, string>) => Object.fromEntries(Object.keys(values).map(name => [name, '***']));
+        const server = value as Record<string, any>;
+        return JSON.stringify({ ...server, ...(server.env ? { env: hide(server.env) } : {}), ...(server.headers ? { headers: hide(server.headers) } : {}) });
+    }
+    return value === undefined ? '(unset)' : JSON.stringify(value);
+}
+
+/**
+ * The /config listing: every effective value and the layer it came from.
+ *
+ *   model                    "gpt-4o"    env
+ *   limits.maxTodos          30          project
+ *   permissions.mode         "ask"       env
+ */
+export function renderConfig({ config, sources }: LoadedConfig): string {
+    const rows: [string, string, string][] = [];
+    for (const [key, check] of Object.entries(SCHEMA)) {
+        const value = (config as Layer)[key];
+        if (typeof check === 'function' && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            // prices, mcpServers: one row per entry
+            for (const [subkey, subvalue] of Object.entries(value)) {
+                rows.push([`${key}.${subkey}`, formatValue(subkey, subvalue), sources[`${key}.${subkey}`] ?? 'default']);
+            }
+            continue;
+        }
+        if (typeof check === 'function') {
+            rows.push([key, formatValue(key, value), sources[key] ?? 'default']);
+            continue;
+        }
+        for (const subkey of Object.keys(check)) {
+            const path = `${key}.${subkey}`;
+            rows.push([path, formatValue(subkey, (config as Layer)[key]?.[subkey]), sources[path] ?? 'default']);
+        }
+    }
+    const keyWidth = Math.max(...rows.map(row => row[0].length));
+    const valueWidth = Math.min(24, Math.max(...rows.map(row => row[1].length)));
+    return rows.map(([key, value, source]) => `${key.padEnd(keyWidth)}  ${value.padEnd(valueWidth)}  ${source}`).join('\n');
+}
@@ -0,0 +1,112 @@
+/**
+ * core/diff.ts
+ *
+ * Minimal line diff used to show the user what a write/edit will change
+ * before it is approved.
+ *
+ * The diff is a plain LCS over lines. It is quadratic, so very large inputs
+ * fall back to "remove everything, add everything" instead of stalling the
+ * prompt.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        return [
+            ...a.map(line => ({ kind: '-' as const, line })),
+            ...b.map(line => ({ kind: '+' as const, line })),
+        ];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= a.length; i++) {
+        lcs.push(new Uint32Array(b.length + 1));
+    }
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i]![j] = a[i] === b[j]
+                ? lcs[i + 1]![j + 1]! + 1
+                : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+        }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push({ kind: ' ', line: a[i]! });
+            i++;
+            j++;
+        } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+            ops.push({ kind: '-', line: a[i]! });
+            i++;
+        } else {
+            ops.push({ kind: '+', line: b[j]! });
+            j++;
+        }
+    }
+    while (i < a.length) ops.push({ kind: '-', line: a[i++]! });
+    while (j < b.length) ops.push({ kind: '+', line: b[j++]! });
+    return ops;
+}
+
+/**
+ * Render a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function unifiedDiff(path: string, before: string, after: string): string {
+    if (before === after) {
+        return '';
+    }
+    const a = before === '' ? [] : before.split('\n');
+    const b = after === '' ? [] : after.split('\n');
+    const ops = diffLines(a, b);
+
+    // Group changed lines into hunks with a few lines of context around them
+    const output: string[] = [`--- a/${path}`, `+++ b/${path}`];
+    let index = 0;
+    let oldLine = 1;
+    let newLine = 1;
+    while (index < ops.length) {
+        if (ops[index]!.kind === ' ') {
+            index++;
+            oldLine++;
+            newLine++;
+            continue;
+        }
+        const start = Math.max(0, index - CONTEXT_LINES);
+        let end = index;
+        let lastChange = index;
+        while (end < ops.length && end - lastChange <= CONTEXT_LINES * 2) {
+            if (ops[end]!.kind !== ' ') {
+                lastChange = end;
+            }
+            end++;
+        }
+        end = Math.min(ops.length, lastChange + CONTEXT_LINES + 1);
+
+        const leading = index - start;
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter(op => op.kind !== '+').length;
+        const newCount = hunk.filter(op => op.kind !== '-').length;
+        const oldStart = oldLine - leading;
+        const newStart = newLine - leading;
+        output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+        for (const op of hunk) {
+            output.push(`${op.kind}${op.line}`);
+        }
+
+        for (const op of ops.slice(index, end)) {
+            if (op.kind !== '+') oldLine++;
+            if (op.kind !== '-') newLine++;
+        }
+        index = end;
+    }
+    return output.join('\n');
+}
@@ -0,0 +1,477 @@
+/**
+ * core/edits.ts
+ *
+ * Text replacement and patching shared by the editing tools.
+ *
+ *   edit         one old -> new replacement (optionally every occurrence)
+ *   multi_edit   an ordered list of replacements in one file, all or nothing
+ *   apply_patch  a unified diff touching any number of files, all or nothing
+ *
+ * A failed match says where the model probably meant, instead of only
+ * "not found":
+ *
+ *   Pattern not found in src/app.ts. Closest match (lines 12-13, 87% similar):
+ *     12| function main(args) {
+ *     13|     const port = 3000;
+ *
+ * With ignore_whitespace, lines match when they differ only in indentation
+ * and spacing; the replacement then covers the whole matched lines.
+ */
+
+import { unlink } from 'fs/promises';
+import { unifiedDiff } from './diff';
+import { readIfExists, safePath } from './builtin_tools';
+import type { Tool, ToolContext } from './tools';
+
+export interface Replacement {
+    old_content: string;
+    new_content: string;
+    // Replace every occurrence instead of requiring exactly one
+    replace_all?: boolean;
+}
+
+export interface MatchOptions {
+    // Compare lines with indentation and runs of spaces collapsed
+    ignoreWhitespace?: boolean;
+}
+
+// Shown in near-match errors
+const MAX_CONTEXT_LINES = 12;
+// Windows scored when looking for a near match; beyond this the error is just "not found"
+const MAX_FUZZY_COMPARISONS = 2_000_000;
+
+interface Range {
+    start: number;
+    end: number;
+}
+
+function normalizeLine(line: string): string {
+    return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Character bigram similarity (Dice coefficient) of two lines, 0..1.
+ */
+function lineSimilarity(a: string, b: string): number {
+    a = normalizeLine(a);
+    b = normalizeLine(b);
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.slice(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.slice(i, i + 2);
+        const count = bigrams.get(bigram) ?? 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            shared++;
+        }
+    }
+    return (2 * shared) / (a.length + b.length - 2);
+}
+
+/**
+ * Character offset where each line starts, plus one past the end.
+ */
+function lineOffsets(lines: string[]): number[] {
+    const offsets = [0];
+    for (const line of lines) {
+        offsets.push(offsets[offsets.length - 1]! + line.length + 1);
+    }
+    return offsets;
+}
+
+function findRanges(content: string, search: string, options: MatchOptions): Range[] {
+    const ranges: Range[] = [];
+    if (search === '') {
+        return ranges;
+    }
+    if (!options.ignoreWhitespace) {
+        for (let at = content.indexOf(search); at !== -1; at = content.indexOf(search, at + search.length)) {
+            ranges.push({ start: at, end: at + search.length });
+        }
+        return ranges;
+    }
+
+    // Whole lines, compared with whitespace normalized
+    const lines = content.split('\n');
+    const wanted = search.replace(/\n$/, '').split('\n').map(normalizeLine);
+    const offsets = lineOffsets(lines);
+    for (let i = 0; i + wanted.length <= lines.length; i++) {
+        if (wanted.every((line, j) => normalizeLine(lines[i + j]!) === line)) {
+            // Keep the newline after the region when the search had one
+            const end = offsets[i + wanted.length]! - (search.endsWith('\n') ? 0 : 1);
+            ranges.push({ start: offsets[i]!, end: Math.min(end, content.length) });
+            i += wanted.length - 1;
+        }
+    }
+    return ranges;
+}
+
+/**
+ * The region of `content` that looks most like `search`, with line numbers,
+ * or undefined when nothing comes close.
+ */
+export function closestMatch(content: string, search: string): string | undefined {
+    const lines = content.split('\n');
+    const wanted = search.replace(/\n$/, '').split('\n');
+    if (lines.length * wanted.length > MAX_FUZZY_COMPARISONS) {
+        return undefined;
+    }
+
+    let best = { index: -1, score: 0 };
+    for (let i = 0; i + wanted.length <= Math.max(lines.length, wanted.length); i++) {
+        let total = 0;
+        for (let j = 0; j < wanted.length; j++) {
+            total += lineSimilarity(lines[i + j] ?? '', wanted[j]!);
+        }
+        const score = total / wanted.length;
+        if (score > best.score) {
+            best = { index: i, score };
+        }
+    }
+    if (best.index === -1 || best.score < 0.5) {
+        return undefined;
+    }
+
+    const shown = lines.slice(best.index, best.index + Math.min(wanted.length, MAX_CONTEXT_LINES));
+    const first = best.index + 1;
+    const last = best.index + Math.min(wanted.length, lines.length - best.index);
+    const body = shown.map((line, i) => `  ${first + i}| ${line}`).join('\n');
+    const more = wanted.length > MAX_CONTEXT_LINES ? `\n  ... (${wanted.length - MAX_CONTEXT_LINES} more lines)` : '';
+    return `Closest match (lines ${first}-${last}, ${Math.round(best.score * 100)}% similar):\n${body}${more}`;
+}
+
+function notFound(what: string, content: string, search: string, options: MatchOptions): Error {
+    const hint = closestMatch(content, search);
+    const retry = options.ignoreWhitespace ? '' : '\nIf only whitespace differs, retry with ignore_whitespace: true.';
+    return new Error(hint ? `${what}. ${hint}${retry}` : `${what}. Nothing similar found; read the file again.`);
+}
+
+/**
+ * Apply one replacement, or throw with the closest near-match.
+ */
+export function applyReplacement(content: string, replacement: Replacement, path: string, options: MatchOptions = {}): string {
+    const ranges = findRanges(content, replacement.old_content, options);
+    if (ranges.length === 0) {
+        throw notFound(`Pattern not found in ${path}`, content, replacement.old_content, options);
+    }
+    if (ranges.length > 1 && !replacement.replace_all) {
+        throw new Error(`Pattern appears ${ranges.length} times, must be unique (or set replace_all: true)`);
+    }
+    let result = '';
+    let at = 0;
+    for (const range of ranges) {
+        result += content.slice(at, range.start) + replacement.new_content;
+        at = range.end;
+    }
+    return result + content.slice(at);
+}
+
+/**
+ * Apply replacements in order, each to the result of the previous one.
+ */
+export function applyReplacements(content: string, replacements: Replacement[], path: string, options: MatchOptions = {}): string {
+    return replacements.reduce((current, replacement, i) => {
+        try {
+            return applyReplacement(current, replacement, path, options);
+        } catch (error: any) {
+            throw new Error(`Edit ${i + 1} of ${replacements.length}: ${error.message}`);
+        }
+    }, content);
+}
+
+export interface FilePatch {
+    // null for /dev/null: a created or deleted file
+    oldPath: string | null;
+    newPath: string | null;
+    hunks: Hunk[];
+}
+
+interface Hunk {
+    // 1-based line in the old file, from the @@ header
+    oldStart: number;
+    // Old-file line count from the @@ header
+    oldCount: number;
+    lines: string[];
+    // "\ No newline at end of file" after an old-side / new-side line: the hunk ends the file
+    oldNoNewline?: boolean;
+    newNoNewline?: boolean;
+}
+
+function patchPath(header: string): string | null {
+    const path = header.replace(/^(---|\+\+\+)\s+/, '').split('\t')[0]!.trim();
+    if (path === '/dev/null') {
+        return null;
+    }
+    return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (as produced by `git diff` or `diff -u`) into per-file hunks.
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+    const files: FilePatch[] = [];
+    const lines = patch.split('\n');
+    let file: FilePatch | undefined;
+    let hunk: Hunk | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!;
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            file = { oldPath: patchPath(line), newPath: patchPath(lines[i + 1]!), hunks: [] };
+            files.push(file);
+            hunk = undefined;
+            i++;
+            continue;
+        }
+        const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/);
+        if (header) {
+            if (!file) {
+                throw new Error(`Hunk before any "--- / +++" file header: ${line}`);
+            }
+            hunk = { oldStart: Number(header[1]), oldCount: Number(header[2] ?? 1), lines: [] };
+            file.hunks.push(hunk);
+            continue;
+        }
+        if (hunk && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-'))) {
+            hunk.lines.push(line);
+        } else if (hunk && line.startsWith('\\') && hunk.lines.length > 0) {
+            // Marks the line before it; a context line lacks the newline on both sides
+            const marked = hunk.lines[hunk.lines.length - 1]![0];
+            hunk.oldNoNewline ||= marked !== '+';
+            hunk.newNoNewline ||= marked !== '-';
+        } else if (hunk && line === '' && hunk.lines.filter(l => !l.startsWith('+')).length < hunk.oldCount) {
+            // Editors strip the trailing space of empty context lines; the count
+            // tells those apart from the blank line that ends the patch
+            hunk.lines.push(' ');
+        }
+        // Anything else (diff --git, index, ...) is ignored
+    }
+    if (files.length === 0) {
+        throw new Error('No file headers ("--- a/path" / "+++ b/path") found in the patch');
+    }
+    return files;
+}
+
+function indexOfLines(lines: string[], wanted: string[], from: number, options: MatchOptions): number {
+    const same = options.ignoreWhitespace
+        ? (a: string, b: string) => normalizeLine(a) === normalizeLine(b)
+        : (a: string, b: string) => a === b;
+    for (let i = from; i + wanted.length <= lines.length; i++) {
+        if (wanted.every((line, j) => same(lines[i + j]!, line))) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Apply one file's hunks. Each hunk is looked for at its stated line first,
+ * then anywhere after the previous hunk, so shifted line numbers still apply.
+ * A hunk with a "\ No newline at end of file" marker is matched against the
+ * end of the file, and the marker decides whether the result ends in a newline.
+ */
+export function applyHunks(content: string, hunks: Hunk[], path: string, options: MatchOptions = {}): string {
+    const lines = content.split('\n');
+    let from = 0;
+    for (const [n, hunk] of hunks.entries()) {
+        const before = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+        const after = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+        const atEnd = hunk.oldNoNewline || hunk.newNoNewline;
+
+        let at: number;
+        if (atEnd) {
+            // Right before the final newline's empty "line", if the file has one
+            const end = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+            at = end - before.length;
+            if (at < from || indexOfLines(lines, before, at, options) !== at) {
+                at = -1;
+            }
+        } else if (before.length === 0) {
+            // Pure insertion ("@@ -5,0 +6,2 @@" inserts after line 5): nothing to look for
+            at = Math.min(Math.max(from, hunk.oldStart), lines.length);
+        } else {
+            at = indexOfLines(lines, before, Math.max(from, hunk.oldStart - 1), options);
+            if (at === -1) {
+                at = indexOfLines(lines, before, from, options);
+            }
+        }
+        if (at === -1) {
+            throw notFound(`Hunk ${n + 1} of ${hunks.length} does not apply to ${path}`, content, before.join('\n'), options);
+        }
+        lines.splice(at, before.length, ...after);
+        from = at + after.length;
+        if (atEnd) {
+            lines.splice(from, lines.length - from, ...(hunk.newNoNewline ? [] : ['']));
+        }
+    }
+    return lines.join('\n');
+}
+
+interface PatchResult {
+    // Absolute path -> new content, or null to delete
+    writes: Map<string, string | null>;
+    summary: string[];
+}
+
+/**
+ * Work out every file's new content without touching the disk.
+ */
+async function planPatch(patch: string, context: ToolContext, options: MatchOptions): Promise<PatchResult> {
+    const writes = new Map<string, string | null>();
+    const summary: string[] = [];
+    const files = parseUnifiedDiff(patch);
+    const deleted = new Set(files.filter(file => file.newPath === null).map(file => file.oldPath));
+    for (const file of files) {
+        const path = file.newPath ?? file.oldPath;
+        if (!path) {
+            throw new Error('Patch has a file with /dev/null on both sides');
+        }
+        const target = safePath(context, path);
+        if (file.newPath === null) {
+            // A file renamed onto this path earlier in the patch replaces it; keep that
+            if (typeof writes.get(target) !== 'string') {
+                writes.set(target, null);
+            }
+            summary.push(`deleted ${path}`);
+            continue;
+        }
+        const renamed = file.oldPath !== null && file.oldPath !== file.newPath;
+        if (renamed && !deleted.has(file.newPath) && (writes.has(target) ? writes.get(target) !== null : await Bun.file(target).exists())) {
+            throw new Error(`Cannot rename ${file.oldPath} to ${path}: ${path} already exists (delete it in the same patch to replace it)`);
+        }
+        const source = file.oldPath === null ? '' : writes.get(safePath(context, file.oldPath)) ?? await Bun.file(safePath(context, file.oldPath)).text();
+        writes.set(target, applyHunks(source, file.hunks, path, options));
+        if (renamed) {
+            writes.set(safePath(context, file.oldPath!), null);
+            summary.push(`renamed ${file.oldPath} -> ${path}`);
+        } else {
+            summary.push(`${file.oldPath === null ? 'created' : 'patched'} ${path} (${file.hunks.length} hunks)`);
+        }
+    }
+    return { writes, summary };
+}
+
+export const multiEditTool: Tool<{ path: string; edits: Replacement[]; ignore_whitespace?: boolean }> = {
+    name: 'multi_edit',
+    description: 'Apply several replacements to one file, in order; each sees the result of the previous one. ' +
+        'If any replacement fails, the file is left unchanged.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'Relative path for the file to edit' },
+            edits: {
+                type: 'array',
+                description: 'Replacements to apply in order',
+                items: {
+                    type: 'object',
+                    properties: {
+                        old_content: { type: 'string', description: 'Exact text to find' },
+                        new_content: { type: 'string', description: 'Replacement text' },
+                        replace_all: { type: 'boolean', description: 'Replace every occurrence (optional)' },
+                    },
+                    required: ['old_content', 'new_content'],
+                },
+            },
+            ignore_whitespace: { type: 'boolean', description: 'Match whole lines ignoring indentation and spacing (optional)' },
+        },
+        required: ['path', 'edits'],
+    },
+    destructive: true,
+    async preview({ path, edits, ignore_whitespace }, context) {
+        const before = await readIfExists(safePath(context, path));
+        try {
+            const after = applyReplacements(before, edits, path, { ignoreWhitespace: ignore_whitespace });
+            return unifiedDiff(path, before, after) || `(no changes to ${path})`;
+        } catch (error: any) {
+            return `(will fail) ${error.message}`;
+        }
+    },
+    touches: ({ path }, context) => [safePath(context, path)],
+    async handler({ path, edits, ignore_whitespace }, context) {
+        if (!Array.isArray(edits) || edits.length === 0) {
+            throw new Error('edits must be a non-empty array');
+        }
+        const file = safePath(context, path);
+        const content = await Bun.file(file).text();
+        await Bun.write(file, applyReplacements(content, edits, path, { ignoreWhitespace: ignore_whitespace }));
+        return `Applied ${edits.length} edits to ${path}`;
+    },
+};
+
+export const applyPatchTool: Tool<{ patch: string; ignore_whitespace?: boolean }> = {
+    name: 'apply_patch',
+    description: 'Apply a unified diff ("--- a/path", "+++ b/path", "@@ ... @@" hunks) to one or more files. ' +
+        'Use /dev/null as the old path to create a file, or as the new path to delete one. ' +
+        'If any hunk fails, no file is changed.',
+    parameters: {
+        type: 'object',
+        properties: {
+            patch: { type: 'string', description: 'The unified diff' },
+            ignore_whitespace: { type: 'boolean', description: 'Match context lines ignoring indentation and spacing (optional)' },
+        },
+        required: ['patch'],
+    },
+    destructive: true,
+    preview: async ({ patch }) => patch,
+    touches({ patch }, context) {
+        return parseUnifiedDiff(patch).flatMap(file =>
+            [file.oldPath, file.newPath].filter(path => path !== null).map(path => safePath(context, path))
+        );
+    },
+    async handler({ patch, ignore_whitespace }, context) {
+        const { writes, summary } = await planPatch(patch, context, { ignoreWhitespace: ignore_whitespace });
+        await writeAll(writes);
+        return summary.join('\n');
+    },
+};
+
+async function writeOrDelete(file: string, content: string | null): Promise<void> {
+    if (content === null) {
+        await unlink(file);
+    } else {
+        await Bun.write(file, content);
+    }
+}
+
+/**
+ * Write (or, for null, delete) every file. If one fails, the files already
+ * done get their old content back, so the patch stays all or nothing.
+ */
+async function writeAll(writes: Map<string, string | null>): Promise<void> {
+    const originals = new Map<string, string | null>();
+    for (const file of writes.keys()) {
+        const existing = Bun.file(file);
+        originals.set(file, await existing.exists() ? await existing.text() : null);
+    }
+    const done: string[] = [];
+    try {
+        for (const [file, content] of writes) {
+            await writeOrDelete(file, content);
+            done.push(file);
+        }
+    } catch (error: any) {
+        const unrestored: string[] = [];
+        for (const file of done.reverse()) {
+            await writeOrDelete(file, originals.get(file)!).catch(() => unrestored.push(file));
+        }
+        const note = unrestored.length > 0 ? `; could not restore ${unrestored.join(', ')}` : '; no file was changed';
+        throw new Error(`${error.message}${note}`);
+    }
+}
+
+/**
+ * multi_edit and apply_patch, for agents that edit more than a line at a time.
+ */
+export function editTools(): Tool<any>[] {
+    return [multiEditTool, applyPatchTool];
+}
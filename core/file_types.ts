@@ -0,0 +1,125 @@
+/**
+ * core/file_types.ts
+ *
+ * What kind of file is this, before decoding it as UTF-8?
+ *
+ *   text    -> read as lines
+ *   image   -> PNG / JPEG / GIF / WebP, sent to vision models as an image part
+ *   binary  -> a one-line description instead of mojibake
+ *
+ * Detection looks at magic bytes first, then at the first few KB for NUL
+ * bytes and control characters, the same heuristic git and grep use.
+ */
+
+// Bytes inspected for binary detection
+const SNIFF_BYTES = 8 * 1024;
+
+export type FileKind =
+    | { kind: 'text' }
+    | { kind: 'image'; mimeType: string; description: string }
+    | { kind: 'binary'; description: string };
+
+interface Signature {
+    bytes: number[];
+    // Offset of the signature in the file
+    offset?: number;
+    name: string;
+    mimeType?: string;
+    // A further check for short signatures that ordinary text can start with
+    confirm?: (data: Uint8Array) => boolean;
+}
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+/**
+ * The DOS stub of a Windows executable points (at 0x3c) to a "PE\0\0" header.
+ */
+function hasPeHeader(data: Uint8Array): boolean {
+    if (data.byteLength < 0x40) {
+        return false;
+    }
+    const offset = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0x3c, true);
+    return hasBytes(data, [0x50, 0x45, 0x00, 0x00], offset);
+}
+
+const SIGNATURES: Signature[] = [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], name: 'PNG image', mimeType: 'image/png' },
+    { bytes: [0xff, 0xd8, 0xff], name: 'JPEG image', mimeType: 'image/jpeg' },
+    { bytes: [0x47, 0x49, 0x46, 0x38], name: 'GIF image', mimeType: 'image/gif' },
+    { bytes: ascii('RIFF'), name: 'WebP image', mimeType: 'image/webp', confirm: data => hasBytes(data, ascii('WEBP'), 8) },
+    { bytes: [0x25, 0x50, 0x44, 0x46], name: 'PDF document' },
+    { bytes: [0x50, 0x4b, 0x03, 0x04], name: 'ZIP archive (or docx/xlsx/jar)' },
+    { bytes: [0x1f, 0x8b], name: 'gzip archive' },
+    { bytes: [0x7f, 0x45, 0x4c, 0x46], name: 'ELF executable' },
+    { bytes: [0xcf, 0xfa, 0xed, 0xfe], name: 'Mach-O executable' },
+    { bytes: [0x4d, 0x5a], name: 'Windows executable', confirm: hasPeHeader },
+    { bytes: [0x00, 0x61, 0x73, 0x6d], name: 'WebAssembly module' },
+    { bytes: [...ascii('SQLite format 3'), 0x00], name: 'SQLite database' },
+];
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function hasBytes(data: Uint8Array, bytes: number[], offset = 0): boolean {
+    return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function matches(data: Uint8Array, signature: Signature): boolean {
+    return hasBytes(data, signature.bytes, signature.offset) && (signature.confirm?.(data) ?? true);
+}
+
+/**
+ * Width x height from the header, for the formats that make it easy.
+ */
+function imageSize(data: Uint8Array, mimeType: string): string | undefined {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (mimeType === 'image/png' && data.byteLength >= 24) {
+        return `${view.getUint32(16)}x${view.getUint32(20)}`;
+    }
+    if (mimeType === 'image/gif' && data.byteLength >= 10) {
+        return `${view.getUint16(6, true)}x${view.getUint16(8, true)}`;
+    }
+    return undefined;
+}
+
+function looksBinary(data: Uint8Array): boolean {
+    const sample = data.subarray(0, SNIFF_BYTES);
+    let control = 0;
+    for (const byte of sample) {
+        if (byte === 0) {
+            return true;
+        }
+        // Control characters other than tab, newline, carriage return, form feed, escape
+        if (byte < 0x20 && ![0x09, 0x0a, 0x0d, 0x0c, 0x1b].includes(byte)) {
+            control++;
+        }
+    }
+    return sample.byteLength > 0 && control / sample.byteLength > 0.1;
+}
+
+export function detectFileKind(data: Uint8Array): FileKind {
+    const size = formatBytes(data.byteLength);
+    const signature = SIGNATURES.find(s => matches(data, s));
+    if (signature?.mimeType) {
+        const dimensions = imageSize(data, signature.mimeType);
+        return {
+            kind: 'image',
+            mimeType: signature.mimeType,
+            description: `${signature.name}, ${dimensions ? dimensions + ', ' : ''}${size}`,
+        };
+    }
+    if (signature) {
+        return { kind: 'binary', description: `${signature.name}, ${size}` };
+    }
+    if (looksBinary(data)) {
+        return { kind: 'binary', description: `binary data, ${size}` };
+    }
+    return { kind: 'text' };
+}
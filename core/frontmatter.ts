@@ -0,0 +1,37 @@
+/**
+ * core/frontmatter.ts
+ *
+ * The `---` block at the top of markdown files (cursor rules, command templates):
+ *
+ *   ---
+ *   description: Conventions for API handlers
+ *   globs: src/api/**, src/server.ts
+ *   alwaysApply: false
+ *   ---
+ *   body...
+ *
+ * Only flat `key: value` lines are supported, which is all these files use.
+ * true/false become booleans; everything else stays a string.
+ */
+
+export interface Frontmatter {
+    attributes: Record<string, string | boolean>;
+    body: string;
+}
+
+export function parseFrontmatter(text: string): Frontmatter {
+    const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) {
+        return { attributes: {}, body: text };
+    }
+    const attributes: Record<string, string | boolean> = {};
+    for (const line of match[1]!.split(/\r?\n/)) {
+        const pair = line.match(/^\s*([\w-]+)\s*:\s*(.*?)\s*$/);
+        if (!pair) {
+            continue;
+        }
+        const value = pair[2]!.replace(/^(['"])(.*)\1$/, '$2');
+        attributes[pair[1]!] = value === 'true' ? true : value === 'false' ? false : value;
+    }
+    return { attributes, body: text.slice(match[0].length) };
+}
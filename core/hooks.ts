@@ -0,0 +1,251 @@
+/**
+ * core/hooks.ts
+ *
+ * User scripts that run around agent actions. Configured per project in
+ * .learn-claude-code/settings.json:
+ *
+ *   {
+ *     "hooks": {
+ *       "preToolUse":  [{ "matcher": ["write(migrations/*)", "edit(migrations/*)"], "command": "./scripts/no-migrations.sh" }],
+ *       "postToolUse": [{ "matcher": ["write", "edit"], "command": "npx prettier --write \"$(jq -r .args.path)\"" },
+ *                       { "matcher": "bash", "command": "jq -c . >> .audit.jsonl" }],
+ *       "stop":        [{ "command": "notify-send 'agent finished'" }]
+ *     }
+ *   }
+ *
+ *   | Event            | When                              | Can                                  |
+ *   |------------------|-----------------------------------|--------------------------------------|
+ *   | sessionStart     | the REPL or a one-shot run starts | -                                    |
+ *   | userPromptSubmit | before a prompt reaches the model | block it, add context                |
+ *   | preToolUse       | before a tool call runs           | block it, rewrite its arguments      |
+ *   | postToolUse      | after a tool call ran             | append feedback to the tool result   |
+ *   | stop             | the model finished its answer     | -                                    |
+ *
+ * `matcher` takes permission patterns (see permissions.ts): "bash",
+ * "bash(git *)", "edit(src/*)"; a list matches if any does. Without one a
+ * hook sees every tool call.
+ *
+ * Each command runs with bash in the workspace and gets a JSON payload on
+ * stdin: { event, sessionId, workspaceDir, toolName, args, result, ... }.
+ * It answers through its exit code and stdout:
+ *
+ *   exit 0, no output or plain text   carry on
+ *   exit 0, JSON on stdout            { "decision": "block", "reason": "..." }
+ *                                     { "args": { ... } }        (preToolUse)
+ *                                     { "feedback": "..." }      (postToolUse)
+ *                                     { "context": "..." }       (userPromptSubmit)
+ *   exit 2                            block, with stderr as the reason
+ *                                     (postToolUse: stderr becomes feedback)
+ *   anything else, or a timeout       a warning; the action goes ahead
+ *
+ * Hooks are the project's own scripts and run with your privileges, outside
+ * the sandbox, like git hooks do.
+ */
+
+import { ConfigError } from './config';
+import { matchesPattern } from './permissions';
+import { projectSettingsPath, readProjectSettings } from './settings';
+import { runShell } from './shell';
+
+export type HookEvent = 'sessionStart' | 'userPromptSubmit' | 'preToolUse' | 'postToolUse' | 'stop';
+
+export const HOOK_EVENTS: HookEvent[] = ['sessionStart', 'userPromptSubmit', 'preToolUse', 'postToolUse', 'stop'];
+
+export interface HookConfig {
+    command: string;
+    // Permission patterns; tool events only
+    matcher?: string | string[];
+    // Seconds (default 60)
+    timeout?: number;
+}
+
+export type HooksConfig = Partial<Record<HookEvent, HookConfig[]>>;
+
+// Fields every payload carries
+export interface HookBase {
+    sessionId?: string;
+}
+
+// What a hook may print on stdout (all optional)
+interface HookOutput {
+    decision?: 'block';
+    reason?: string;
+    args?: Record<string, any>;
+    feedback?: string;
+    context?: string;
+}
+
+interface HookOutcome {
+    // Set when the hook blocked the action; the reason
+    blocked?: string;
+    output: HookOutput;
+    // stderr of an exit-2 postToolUse hook
+    feedback?: string;
+}
+
+const DEFAULT_HOOK_TIMEOUT_SECONDS = 60;
+// Other non-zero exits are a broken hook, not a "no"
+const BLOCK_EXIT_CODE = 2;
+
+export class HookRunner {
+    constructor(
+        readonly hooks: HooksConfig,
+        readonly workspaceDir: string,
+    ) {}
+
+    async sessionStart(base: HookBase & { model: string; resumed: boolean }): Promise<void> {
+        await this.runAll('sessionStart', base);
+    }
+
+    /**
+     * Returns why the prompt was blocked, or extra context to send with it.
+     */
+    async userPromptSubmit(base: HookBase, prompt: string): Promise<{ blocked?: string; context: string[] }> {
+        const context: string[] = [];
+        for (const hook of this.hooks.userPromptSubmit ?? []) {
+            const outcome = await this.runHook('userPromptSubmit', hook, { ...base, prompt });
+            if (outcome.blocked !== undefined) {
+                return { blocked: outcome.blocked, context };
+            }
+            if (outcome.output.context) {
+                context.push(outcome.output.context);
+            }
+        }
+        return { context };
+    }
+
+    /**
+     * Matching hooks run in order, each seeing the arguments as rewritten by
+     * the ones before it; the first block wins.
+     */
+    async preToolUse(base: HookBase, toolName: string, args: Record<string, any>): Promise<{ blocked?: string; args: Record<string, any> }> {
+        for (const hook of this.matching('preToolUse', toolName, args)) {
+            const outcome = await this.runHook('preToolUse', hook, { ...base, toolName, args });
+            if (outcome.blocked !== undefined) {
+                return { blocked: outcome.blocked, args };
+            }
+            if (outcome.output.args) {
+                args = outcome.output.args;
+            }
+        }
+        return { args };
+    }
+
+    /**
+     * Feedback from the matching hooks, to append to the tool result.
+     */
+    async postToolUse(base: HookBase, toolName: string, args: Record<string, any>, result: string, isError: boolean): Promise<string[]> {
+        const feedback: string[] = [];
+        for (const hook of this.matching('postToolUse', toolName, args)) {
+            const outcome = await this.runHook('postToolUse', hook, { ...base, toolName, args, result, isError });
+            const text = outcome.output.feedback ?? outcome.feedback;
+            if (text) {
+                feedback.push(text);
+            }
+        }
+        return feedback;
+    }
+
+    async stop(base: HookBase & { finalText: string | null }): Promise<void> {
+        await this.runAll('stop', base);
+    }
+
+    private matching(event: HookEvent, toolName: string, args: Record<string, any>): HookConfig[] {
+        return (this.hooks[event] ?? []).filter(hook => {
+            if (hook.matcher === undefined) {
+                return true;
+            }
+            const patterns = Array.isArray(hook.matcher) ? hook.matcher : [hook.matcher];
+            return patterns.some(pattern => matchesPattern(pattern, toolName, args));
+        });
+    }
+
+    private async runAll(event: HookEvent, payload: object): Promise<void> {
+        for (const hook of this.hooks[event] ?? []) {
+            await this.runHook(event, hook, payload);
+        }
+    }
+
+    private async runHook(event: HookEvent, hook: HookConfig, payload: object): Promise<HookOutcome> {
+        const label = `${event} hook \`${hook.command}\``;
+        const result = await runShell(hook.command, {
+            cwd: this.workspaceDir,
+            timeoutMs: (hook.timeout ?? DEFAULT_HOOK_TIMEOUT_SECONDS) * 1000,
+            input: JSON.stringify({ event, workspaceDir: this.workspaceDir, ...payload }),
+        });
+        if (result.timedOut) {
+            console.warn(`⚠️  ${label} timed out after ${Math.round(result.durationMs / 1000)}s; ignoring it`);
+            return { output: {} };
+        }
+        if (result.exitCode === BLOCK_EXIT_CODE) {
+            const message = result.stderr.trim() || `blocked by ${label}`;
+            return event === 'postToolUse' ? { output: {}, feedback: message } : { blocked: message, output: {} };
+        }
+        if (result.exitCode !== 0) {
+            const detail = result.stderr.trim().split('\n')[0] || `exit code ${result.exitCode ?? result.signal}`;
+            console.warn(`⚠️  ${label} failed: ${detail}; ignoring it`);
+            return { output: {} };
+        }
+
+        const output = parseOutput(result.stdout);
+        if (output.decision === 'block') {
+            return { blocked: output.reason || `blocked by ${label}`, output };
+        }
+        return { output };
+    }
+}
+
+/**
+ * JSON answers start with "{"; anything else (a formatter's chatter) is ignored.
+ */
+function parseOutput(stdout: string): HookOutput {
+    const text = stdout.trim();
+    if (!text.startsWith('{')) {
+        return {};
+    }
+    try {
+        const output = JSON.parse(text);
+        return typeof output === 'object' && output !== null ? output : {};
+    } catch {
+        return {};
+    }
+}
+
+function validateHooks(raw: unknown, source: string): HooksConfig {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new ConfigError(`${source}: hooks must be an object of event name -> list of hooks`);
+    }
+    for (const [event, hooks] of Object.entries(raw)) {
+        if (!HOOK_EVENTS.includes(event as HookEvent)) {
+            throw new ConfigError(`${source}: unknown hook event ${event} (expected one of ${HOOK_EVENTS.join(', ')})`);
+        }
+        if (!Array.isArray(hooks)) {
+            throw new ConfigError(`${source}: hooks.${event} must be a list`);
+        }
+        hooks.forEach((hook, i) => {
+            const matcher = hook?.matcher;
+            if (typeof hook?.command !== 'string' || !hook.command) {
+                throw new ConfigError(`${source}: hooks.${event}[${i}].command must be a non-empty string`);
+            }
+            if (matcher !== undefined && typeof matcher !== 'string' && !(Array.isArray(matcher) && matcher.every(m => typeof m === 'string'))) {
+                throw new ConfigError(`${source}: hooks.${event}[${i}].matcher must be a pattern or a list of patterns`);
+            }
+            if (hook.timeout !== undefined && !(typeof hook.timeout === 'number' && hook.timeout > 0)) {
+                throw new ConfigError(`${source}: hooks.${event}[${i}].timeout must be a positive number of seconds`);
+            }
+        });
+    }
+    return raw as HooksConfig;
+}
+
+/**
+ * The workspace's hooks, or undefined when it has none.
+ */
+export async function loadHooks(workspaceDir: string): Promise<HookRunner | undefined> {
+    const settings = await readProjectSettings(workspaceDir);
+    if (settings.hooks === undefined) {
+        return undefined;
+    }
+    const hooks = validateHooks(settings.hooks, projectSettingsPath(workspaceDir));
+    return HOOK_EVENTS.some(event => (hooks[event]?.length ?? 0) > 0) ? new HookRunner(hooks, workspaceDir) : undefined;
+}
@@ -0,0 +1,31 @@
+/**
+ * core/index.ts
+ *
+ * Public API for embedding the agent in your own scripts.
+ */
+
+export { Agent, type AgentOptions, type LogLevel, type RunStop, type SendOptions } from './agent';
+export { createProvider, createClient, parseModelSpec, PROVIDERS, ProviderError, OpenAIChatProvider, type Provider, type ProviderName, type CompletionRequest, type CompletionResult, type StopReason } from './provider';
+export { withRetry, classifyError, ModelCallError, type ErrorKind } from './retry';
+export { AnthropicProvider } from './anthropic';
+export { OpenAIResponsesProvider } from './openai_responses';
+export { OllamaProvider } from './ollama';
+export { ToolRegistry, type Tool, type ToolContext } from './tools';
+export { basicTools, bashTool, createBashTool, readTool, writeTool, editTool, isSafePath, safePath } from './builtin_tools';
+export { taskTool, subagentTools, SUBAGENT_ROLES, type SubagentRole } from './subagent';
+export { searchTools, globTool, grepTool } from './search';
+export { editTools, multiEditTool, applyPatchTool, applyReplacement, parseUnifiedDiff, type Replacement } from './edits';
+export { TodoManager, todoWriteTool, type Todo, type TodoInput, type TodoStatus } from './todos';
+export { StatusLine } from './status_line';
+export { PermissionManager, PermissionDeniedError, permissionsFromEnv, type PermissionMode, type PermissionOptions } from './permissions';
+export { HookRunner, loadHooks, HOOK_EVENTS, type HookEvent, type HookConfig, type HooksConfig } from './hooks';
+export { McpManager, McpClient, McpError, connectMcpServers, mcpToolName, type McpServerConfig, type McpServersConfig, type McpStatus } from './mcp';
+export { PromptHistory, readPrompt, attachMentions, completeMention, watchForEscape, type ReadPromptOptions } from './input';
+export { CommandRegistry, loadCommands, loadCustomCommands, expandTemplate, BUILTIN_COMMANDS, type SlashCommand, type CommandContext, type CommandResult, type CommandSource } from './commands';
+export { CheckpointStore, type Checkpoint } from './checkpoints';
+export { loadInstructions, withInstructions, type InstructionSource } from './instructions';
+export { loadConfig, renderConfig, filterTools, permissionsFromConfig, providerFromConfig, usageFromConfig, ConfigError, DEFAULT_CONFIG, type AgentConfig, type ConfigFlags, type LoadedConfig } from './config';
+export { UsageTracker, DEFAULT_PRICES, priceFor, costOf, type TokenUsage, type ModelPrice, type PriceTable, type UsageRecord, type Budget } from './usage';
+export { runOneShot, OUTPUT_FORMATS, EXIT_CODES, type OutputFormat, type AgentEvent, type ResultStatus } from './output';
+export { Session, openSession, type SessionData, type SessionSummary } from './session';
+export { runCliApp, type CliAppOptions } from './repl';
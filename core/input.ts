@@ -0,0 +1,294 @@
+/**
+ * core/input.ts
+ *
+ * The REPL's prompt line, on node:readline:
+ *
+ *   | Key                  | Does                                                  |
+ *   |----------------------|-------------------------------------------------------|
+ *   | Enter                | send                                                  |
+ *   | \ then Enter         | keep typing on the next line                          |
+ *   | (paste)              | pasted lines stay one message; Enter sends            |
+ *   | Up / Down            | earlier prompts, from this and past sessions          |
+ *   | @ + Tab              | complete a workspace path                             |
+ *   | Ctrl+C               | clear what was typed; on an empty prompt, quit        |
+ *   | Ctrl+D               | quit                                                  |
+ *   | Esc (agent working)  | stop the request or tool in flight, back to the prompt |
+ *
+ * Prompts are kept in ~/.learn-claude-code/history.jsonl, one JSON string per
+ * line, so multi-line prompts come back whole.
+ *
+ * `@path` in a prompt attaches the file, below the prompt:
+ *
+ *   You: why does @core/agent.ts retry twice?
+ *        -> why does @core/agent.ts retry twice?
+ *
+ *           <file path="core/agent.ts">
+ *           ...
+ *           </file>
+ *
+ * Only paths inside the workspace are attached (isSafePath); directories
+ * attach their listing, and binary or very large files a note instead.
+ */
+
+import { appendFile, mkdir, readdir, stat, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve } from 'path';
+import * as readline from 'readline';
+import { isSafePath } from './builtin_tools';
+import { detectFileKind, formatBytes } from './file_types';
+import { userConfigDir } from './settings';
+
+const HISTORY_FILE = 'history.jsonl';
+// Entries kept; the file is rewritten when it grows past twice this
+const MAX_HISTORY = 500;
+// Lines closer together than this came from one paste
+const PASTE_GAP_MS = 30;
+// Bigger mentioned files get a note; the read tool can page through them
+const MAX_MENTION_BYTES = 256 * 1024;
+// Completion candidates shown at once
+const MAX_COMPLETIONS = 50;
+// Never offered by @ completion
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+const MENTION = /(^|\s)@([^\s@]+)/g;
+
+export class PromptHistory {
+    // Newest first, as readline wants them
+    private entries: string[] = [];
+
+    constructor(readonly file: string = join(userConfigDir(), HISTORY_FILE)) {}
+
+    async load(): Promise<void> {
+        const file = Bun.file(this.file);
+        if (!(await file.exists())) {
+            return;
+        }
+        const entries: string[] = [];
+        for (const line of (await file.text()).split('\n')) {
+            try {
+                const entry = JSON.parse(line);
+                if (typeof entry === 'string' && entry) {
+                    entries.push(entry);
+                }
+            } catch {
+                // A torn last line from a crash; skip it
+            }
+        }
+        this.entries = entries.slice(-MAX_HISTORY).reverse();
+        if (entries.length > MAX_HISTORY * 2) {
+            await writeFile(this.file, this.entries.slice().reverse().map(entry => JSON.stringify(entry) + '\n').join(''));
+        }
+    }
+
+    list(): string[] {
+        return [...this.entries];
+    }
+
+    async add(entry: string): Promise<void> {
+        if (!entry.trim() || this.entries[0] === entry) {
+            return;
+        }
+        this.entries.unshift(entry);
+        this.entries.length = Math.min(this.entries.length, MAX_HISTORY);
+        await mkdir(dirname(this.file), { recursive: true });
+        await appendFile(this.file, JSON.stringify(entry) + '\n');
+    }
+}
+
+/**
+ * Tab completion for the `@path` being typed at the end of the line.
+ */
+export async function completeMention(line: string, workspaceDir: string): Promise<[string[], string]> {
+    const match = line.match(/(?:^|\s)@([^\s@]*)$/);
+    if (!match) {
+        return [[], line];
+    }
+    const typed = match[1]!;
+    const slash = typed.lastIndexOf('/');
+    const dir = typed.slice(0, slash + 1);
+    const prefix = typed.slice(slash + 1);
+    if (!isSafePath(workspaceDir, dir || '.')) {
+        return [[], `@${typed}`];
+    }
+    const entries = await readdir(resolve(workspaceDir, dir || '.'), { withFileTypes: true }).catch(() => []);
+    const hits = entries
+        .filter(entry => entry.name.startsWith(prefix) && !SKIPPED_DIRS.has(entry.name))
+        // Dotfiles only when asked for
+        .filter(entry => prefix.startsWith('.') || !entry.name.startsWith('.'))
+        .map(entry => `@${dir}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+        .sort()
+        .slice(0, MAX_COMPLETIONS);
+    return [hits, `@${typed}`];
+}
+
+async function describeMention(workspaceDir: string, path: string): Promise<string | undefined> {
+    const absolute = resolve(workspaceDir, path);
+    const info = await stat(absolute).catch(() => undefined);
+    if (!info) {
+        return undefined;
+    }
+    const name = relative(workspaceDir, absolute) || '.';
+    if (info.isDirectory()) {
+        const entries = await readdir(absolute, { withFileTypes: true });
+        const listing = entries.map(entry => entry.name + (entry.isDirectory() ? '/' : '')).sort().join('\n');
+        console.log(`📎 ${name}/ (${entries.length} entries)`);
+        return `<directory path="${name}">\n${listing}\n</directory>`;
+    }
+    if (info.size > MAX_MENTION_BYTES) {
+        console.log(`📎 ${name} is ${formatBytes(info.size)}; only its name is attached`);
+        return `<file path="${name}">(${formatBytes(info.size)}, too large to attach; use the read tool with offset/limit)</file>`;
+    }
+    const data = new Uint8Array(await Bun.file(absolute).arrayBuffer());
+    const kind = detectFileKind(data);
+    if (kind.kind !== 'text') {
+        console.log(`📎 ${name} is ${kind.description}; only its name is attached`);
+        return `<file path="${name}">(${kind.description}, not attached; use the read tool)</file>`;
+    }
+    console.log(`📎 ${name} (${formatBytes(data.byteLength)})`);
+    const text = new TextDecoder().decode(data);
+    return `<file path="${name}">\n${text}${text.endsWith('\n') ? '' : '\n'}</file>`;
+}
+
+/**
+ * The prompt with each mentioned file appended. Mentions outside the
+ * workspace, or of paths that don't exist, are left as plain text.
+ */
+export async function attachMentions(prompt: string, workspaceDir: string): Promise<string> {
+    const attachments: string[] = [];
+    const seen = new Set<string>();
+    for (const match of prompt.matchAll(MENTION)) {
+        // "see @src/a.ts." - the period ends the sentence, not the path
+        let path = match[2]!;
+        if (!(await Bun.file(resolve(workspaceDir, path)).exists())) {
+            path = path.replace(/[.,;:!?)'"]+$/, '');
+        }
+        const key = resolve(workspaceDir, path);
+        if (!path || seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        if (!isSafePath(workspaceDir, path)) {
+            console.warn(`⚠️  @${path} is outside the workspace; not attached`);
+            continue;
+        }
+        const attachment = await describeMention(workspaceDir, path);
+        if (attachment) {
+            attachments.push(attachment);
+        }
+    }
+    return attachments.length > 0 ? `${prompt}\n\n${attachments.join('\n\n')}` : prompt;
+}
+
+export interface ReadPromptOptions {
+    history: PromptHistory;
+    // Root for @ completion
+    workspaceDir: string;
+    prompt?: string;
+}
+
+/**
+ * Read one message from the terminal. Resolves to null when the user quits
+ * (Ctrl+C on an empty prompt, Ctrl+D).
+ */
+export function readPrompt(options: ReadPromptOptions): Promise<string | null> {
+    const firstPrompt = options.prompt ?? 'You: ';
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        terminal: true,
+        history: options.history.list(),
+        historySize: MAX_HISTORY,
+        completer: (line: string, callback: (error: null, result: [string[], string]) => void) => {
+            completeMention(line, options.workspaceDir).then(result => callback(null, result), () => callback(null, [[], line]));
+        },
+    });
+    const lines: string[] = [];
+    let pending: ReturnType<typeof setTimeout> | undefined;
+
+    return new Promise(resolve => {
+        let done = false;
+        const finish = (value: string | null) => {
+            if (done) {
+                return;
+            }
+            done = true;
+            clearTimeout(pending);
+            rl.close();
+            resolve(value);
+        };
+        const continueOnNextLine = () => {
+            rl.setPrompt('... ');
+            rl.prompt(true);
+        };
+
+        rl.on('line', line => {
+            clearTimeout(pending);
+            if (line.endsWith('\\')) {
+                lines.push(line.slice(0, -1));
+                continueOnNextLine();
+                return;
+            }
+            lines.push(line);
+            // More lines of a paste arrive within a few ms; wait for them
+            pending = setTimeout(() => {
+                // The paste's last line is still in the editor: let the user finish it
+                if ((rl as unknown as { line: string }).line) {
+                    continueOnNextLine();
+                    return;
+                }
+                const text = lines.join('\n');
+                if (text.trim()) {
+                    void options.history.add(text);
+                }
+                finish(text);
+            }, PASTE_GAP_MS);
+        });
+        rl.on('SIGINT', () => {
+            const typed = (rl as unknown as { line: string }).line;
+            if (lines.length === 0 && !typed) {
+                process.stdout.write('\n');
+                finish(null);
+                return;
+            }
+            // Like a shell: drop what was typed and start over
+            clearTimeout(pending);
+            lines.length = 0;
+            rl.write(null, { ctrl: true, name: 'e' });
+            rl.write(null, { ctrl: true, name: 'u' });
+            process.stdout.write('^C\n');
+            rl.setPrompt(firstPrompt);
+            rl.prompt();
+        });
+        rl.on('close', () => finish(null));
+
+        rl.setPrompt(firstPrompt);
+        rl.prompt();
+    });
+}
+
+/**
+ * Call onEscape when Esc is pressed, until the returned function is called.
+ * The terminal is in raw mode meanwhile, so Ctrl+C arrives as a key and is
+ * passed on as SIGINT (which cancels a running tool). A permission prompt
+ * takes the terminal back; Esc works again from the next turn.
+ */
+export function watchForEscape(onEscape: () => void): () => void {
+    if (!process.stdin.isTTY) {
+        return () => {};
+    }
+    const onKeypress = (_text: string | undefined, key: { name?: string; ctrl?: boolean } | undefined) => {
+        if (key?.name === 'escape') {
+            onEscape();
+        } else if (key?.ctrl && key.name === 'c') {
+            process.kill(process.pid, 'SIGINT');
+        }
+    };
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.on('keypress', onKeypress);
+    process.stdin.resume();
+    return () => {
+        process.stdin.off('keypress', onKeypress);
+        process.stdin.setRawMode(false);
+        process.stdin.pause();
+    };
+}
@@ -0,0 +1,156 @@
+/**
+ * core/instructions.ts
+ *
+ * Project instructions ("use bun test", "never touch generated/") read from
+ * files at startup and appended to the system prompt, so nobody has to
+ * paste them into every session.
+ *
+ * Sources, from lowest to highest precedence:
+ *
+ *   1. user        ~/.learn-claude-code/AGENTS.md (or CLAUDE.md)
+ *   2. parent      AGENTS.md / CLAUDE.md in each directory above the workspace, outermost first
+ *   3. cursor rule <workspace>/.cursor/rules/*.mdc
+ *   4. project     <workspace>/AGENTS.md / CLAUDE.md
+ *
+ * They appear in the prompt in this order, and the prompt says that later
+ * sections win when they disagree: the closer to the code, the more specific.
+ * `/instructions` shows what was loaded.
+ */
+
+import { readdir } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { formatBytes } from './file_types';
+import { parseFrontmatter } from './frontmatter';
+import { userConfigDir } from './settings';
+
+// Looked for in every directory, in this order
+export const INSTRUCTION_FILES = ['AGENTS.md', 'CLAUDE.md'];
+const CURSOR_RULES_DIR = join('.cursor', 'rules');
+// Per file; the rest is cut with a note
+const MAX_INSTRUCTION_CHARS = 32 * 1024;
+
+export type InstructionScope = 'user' | 'parent' | 'cursor-rule' | 'project';
+
+export interface InstructionSource {
+    scope: InstructionScope;
+    path: string;
+    content: string;
+    // Original size, when content was cut
+    truncatedFrom?: number;
+}
+
+async function readSource(scope: InstructionScope, path: string, transform?: (text: string) => string): Promise<InstructionSource | undefined> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+        return undefined;
+    }
+    let content = (await file.text()).trim();
+    if (transform) {
+        content = transform(content);
+    }
+    if (!content) {
+        return undefined;
+    }
+    if (content.length > MAX_INSTRUCTION_CHARS) {
+        return { scope, path, content: content.slice(0, MAX_INSTRUCTION_CHARS) + '\n... (truncated)', truncatedFrom: content.length };
+    }
+    return { scope, path, content };
+}
+
+async function readDirectory(scope: InstructionScope, dir: string): Promise<InstructionSource[]> {
+    const sources: InstructionSource[] = [];
+    for (const name of INSTRUCTION_FILES) {
+        const source = await readSource(scope, join(dir, name));
+        if (source) {
+            sources.push(source);
+        }
+    }
+    return sources;
+}
+
+/**
+ * A cursor rule's body, prefixed with when it applies. Rules that only
+ * apply to some files keep their globs so the model can judge.
+ */
+function cursorRule(text: string): string {
+    const { attributes, body } = parseFrontmatter(text);
+    const notes: string[] = [];
+    if (typeof attributes.description === 'string' && attributes.description) {
+        notes.push(attributes.description);
+    }
+    if (attributes.alwaysApply !== true && typeof attributes.globs === 'string' && attributes.globs) {
+        notes.push(`applies to files matching: ${attributes.globs}`);
+    }
+    const content = body.trim();
+    return notes.length > 0 && content ? `(${notes.join('; ')})\n${content}` : content;
+}
+
+async function readCursorRules(workspaceDir: string): Promise<InstructionSource[]> {
+    const dir = join(workspaceDir, CURSOR_RULES_DIR);
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const sources: InstructionSource[] = [];
+    for (const name of names.filter(name => name.endsWith('.mdc')).sort()) {
+        const source = await readSource('cursor-rule', join(dir, name), cursorRule);
+        if (source) {
+            sources.push(source);
+        }
+    }
+    return sources;
+}
+
+/**
+ * Every instruction file that applies to a workspace, lowest precedence first.
+ */
+export async function loadInstructions(workspaceDir: string, userDir: string = userConfigDir()): Promise<InstructionSource[]> {
+    const workspace = resolve(workspaceDir);
+    const parents: string[] = [];
+    for (let dir = dirname(workspace); ; dir = dirname(dir)) {
+        parents.unshift(dir);
+        if (dirname(dir) === dir) {
+            break;
+        }
+    }
+
+    const sources = await readDirectory('user', userDir);
+    for (const dir of parents.filter(dir => workspace !== dir)) {
+        sources.push(...await readDirectory('parent', dir));
+    }
+    sources.push(...await readCursorRules(workspace));
+    sources.push(...await readDirectory('project', workspace));
+    return sources;
+}
+
+/**
+ * The system prompt with the instructions appended, one section per file.
+ */
+export function withInstructions(systemPrompt: string, sources: InstructionSource[]): string {
+    if (sources.length === 0) {
+        return systemPrompt;
+    }
+    const sections = sources.map(source => `## ${source.path} (${source.scope})\n\n${source.content}`);
+    return `${systemPrompt.trimEnd()}
+
+# Project instructions
+
+The user provided these instructions. Follow them. When they conflict, later sections take precedence over earlier ones.
+
+${sections.join('\n\n')}
+`;
+}
+
+/**
+ * The /instructions listing, followed by each file as the model sees it.
+ */
+export function renderInstructions(sources: InstructionSource[]): string {
+    if (sources.length === 0) {
+        return `No instruction files found (looked for ${INSTRUCTION_FILES.join(', ')} in the workspace, its parents and ${userConfigDir()}, and ${CURSOR_RULES_DIR}/*.mdc)`;
+    }
+    const lines = sources.map((source, i) => {
+        const size = source.truncatedFrom
+            ? `${formatBytes(source.truncatedFrom)}, truncated to ${formatBytes(MAX_INSTRUCTION_CHARS)}`
+            : formatBytes(source.content.length);
+        return `${i + 1}. [${source.scope}] ${source.path} (${size})`;
+    });
+    const contents = sources.map(source => `--- ${source.path}\n${source.content}`);
+    return `Loaded in this order (later entries take precedence):\n${lines.join('\n')}\n\n${contents.join('\n\n')}`;
+}
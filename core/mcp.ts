@@ -0,0 +1,510 @@
+/**
+ * core/mcp.ts
+ *
+ * A Model Context Protocol client: tools from external servers, registered
+ * next to the built-in ones. Servers are listed under mcpServers in any
+ * settings file (see config.ts):
+ *
+ *   {
+ *     "mcpServers": {
+ *       "db":     { "command": "npx", "args": ["-y", "@acme/db-mcp"], "env": { "DB_URL": "${DB_URL}" } },
+ *       "issues": { "url": "https://mcp.example.com/mcp", "headers": { "Authorization": "Bearer ${ISSUES_TOKEN}" } }
+ *     }
+ *   }
+ *
+ * ${VAR} in args, env and headers is replaced from the environment, so
+ * secrets stay out of the file.
+ *
+ *   | Transport | Config    | Messages                                                   |
+ *   |-----------|-----------|------------------------------------------------------------|
+ *   | stdio     | command   | one JSON-RPC message per line on the child's stdin/stdout  |
+ *   | HTTP      | url       | POST per message; the answer is JSON or an SSE stream      |
+ *
+ * Start-up is initialize -> notifications/initialized -> tools/list. Each
+ * tool becomes mcp__<server>__<tool> and runs through the registry like any
+ * other, so permissions, hooks and tools.disabled apply. A server that
+ * fails to start is reported by /mcp and the agent carries on without it.
+ */
+
+import type { FunctionParameters } from 'openai/resources';
+import { readLines, readServerSentEvents } from './stream';
+import type { Tool, ToolImage, ToolOutput } from './tools';
+
+export type McpServerConfig =
+    | { command: string; args?: string[]; env?: Record<string, string>; cwd?: string; timeout?: number }
+    | { url: string; headers?: Record<string, string>; timeout?: number };
+
+export type McpServersConfig = Record<string, McpServerConfig>;
+
+export type McpStatus = 'connecting' | 'connected' | 'failed' | 'closed';
+
+// A tool as tools/list describes it
+interface McpToolInfo {
+    name: string;
+    description?: string;
+    inputSchema?: FunctionParameters;
+    annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean };
+}
+
+// One item of a tools/call result
+type McpContent =
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'audio'; data: string; mimeType: string }
+    | { type: 'resource'; resource: { uri: string; text?: string; mimeType?: string } }
+    | { type: 'resource_link'; uri: string; name?: string };
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: unknown;
+    result?: any;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+export const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'learn-claude-code', version: '1.0.0' };
+// Seconds per request, unless the server's config says otherwise
+const DEFAULT_TIMEOUT_SECONDS = 60;
+// Kept from a stdio server's stderr, to explain a failed start
+const STDERR_TAIL_CHARS = 2_000;
+// OpenAI function names: ^[a-zA-Z0-9_-]{1,64}$
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export class McpError extends Error {
+    constructor(
+        readonly server: string,
+        message: string,
+        readonly code?: number,
+    ) {
+        super(`MCP ${server}: ${message}`);
+        this.name = 'McpError';
+    }
+}
+
+function expandEnv(value: string): string {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+}
+
+function expandAll(values: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, expandEnv(value)]));
+}
+
+/**
+ * Sends requests and notifications; the client knows nothing of pipes or HTTP.
+ */
+interface Transport {
+    request(message: JsonRpcMessage, timeoutMs: number): Promise<JsonRpcMessage>;
+    notify(message: JsonRpcMessage): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * A child process speaking newline-delimited JSON-RPC. Requests the server
+ * sends us (ping, roots/list) get a minimal answer so it doesn't hang.
+ */
+class StdioTransport implements Transport {
+    private proc: ReturnType<typeof Bun.spawn<'pipe', 'pipe', 'pipe'>>;
+    private pending = new Map<number | string, (message: JsonRpcMessage) => void>();
+    private stderr = '';
+    // Set once the process exited; later requests fail at once
+    private exited?: string;
+
+    constructor(private server: string, config: { command: string; args?: string[]; env?: Record<string, string>; cwd?: string }, workspaceDir: string) {
+        this.proc = Bun.spawn([config.command, ...(config.args ?? []).map(expandEnv)], {
+            cwd: config.cwd ?? workspaceDir,
+            env: { ...process.env, ...expandAll(config.env) },
+            stdin: 'pipe',
+            stdout: 'pipe',
+            stderr: 'pipe',
+        });
+        this.readMessages();
+        this.readStderr();
+        this.proc.exited.then(code => {
+            this.exited = `server exited with code ${code}${this.stderr.trim() ? `: ${this.stderr.trim().split('\n').pop()}` : ''}`;
+            for (const resolve of this.pending.values()) {
+                resolve({ jsonrpc: '2.0', error: { code: -32000, message: this.exited } });
+            }
+            this.pending.clear();
+        });
+    }
+
+    private async readMessages(): Promise<void> {
+        for await (const line of readLines(this.proc.stdout)) {
+            if (!line.trim()) {
+                continue;
+            }
+            let message: JsonRpcMessage;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                // Some servers log to stdout; not ours to parse
+                continue;
+            }
+            if (message.method !== undefined && message.id !== undefined) {
+                this.write({ jsonrpc: '2.0', id: message.id, ...answerServerRequest(message) });
+            } else if (message.id !== undefined) {
+                this.pending.get(message.id)?.(message);
+                this.pending.delete(message.id);
+            }
+        }
+    }
+
+    private async readStderr(): Promise<void> {
+        const decoder = new TextDecoder();
+        for await (const chunk of this.proc.stderr) {
+            this.stderr = (this.stderr + decoder.decode(chunk, { stream: true })).slice(-STDERR_TAIL_CHARS);
+        }
+    }
+
+    private write(message: JsonRpcMessage): void {
+        this.proc.stdin.write(JSON.stringify(message) + '\n');
+        this.proc.stdin.flush();
+    }
+
+    request(message: JsonRpcMessage, timeoutMs: number): Promise<JsonRpcMessage> {
+        if (this.exited) {
+            return Promise.reject(new McpError(this.server, this.exited));
+        }
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(message.id!);
+                reject(new McpError(this.server, `${message.method} timed out after ${timeoutMs / 1000}s`));
+            }, timeoutMs);
+            this.pending.set(message.id!, response => {
+                clearTimeout(timer);
+                resolve(response);
+            });
+            this.write(message);
+        });
+    }
+
+    async notify(message: JsonRpcMessage): Promise<void> {
+        if (!this.exited) {
+            this.write(message);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.exited) {
+            return;
+        }
+        // Closing stdin is the polite stop; kill whoever ignores it
+        this.proc.stdin.end();
+        const timer = setTimeout(() => this.proc.kill(), 2_000);
+        await this.proc.exited;
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Streamable HTTP: every message is a POST; the server may answer with
+ * JSON or an event stream that ends with our response. The session id
+ * from initialize goes on every later request.
+ */
+class HttpTransport implements Transport {
+    private sessionId?: string;
+    private url: string;
+    private headers: Record<string, string>;
+
+    constructor(private server: string, config: { url: string; headers?: Record<string, string> }) {
+        this.url = expandEnv(config.url);
+        this.headers = expandAll(config.headers);
+    }
+
+    private async post(message: JsonRpcMessage, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: {
+                ...this.headers,
+                'content-type': 'application/json',
+                accept: 'application/json, text/event-stream',
+                ...(this.sessionId ? { 'mcp-session-id': this.sessionId, 'mcp-protocol-version': PROTOCOL_VERSION } : {}),
+            },
+            body: JSON.stringify(message),
+            signal,
+        });
+        this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw new McpError(this.server, `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+        }
+        return response;
+    }
+
+    async request(message: JsonRpcMessage, timeoutMs: number): Promise<JsonRpcMessage> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await this.post(message, controller.signal);
+            if (!(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+                return await response.json() as JsonRpcMessage;
+            }
+            for await (const { data } of readServerSentEvents(response.body!)) {
+                const event = JSON.parse(data) as JsonRpcMessage;
+                if (event.id === message.id && event.method === undefined) {
+                    return event;
+                }
+                if (event.method !== undefined && event.id !== undefined) {
+                    await this.post({ jsonrpc: '2.0', id: event.id, ...answerServerRequest(event) });
+                }
+            }
+            throw new McpError(this.server, `${message.method}: stream ended without a response`);
+        } catch (error: any) {
+            if (controller.signal.aborted) {
+                throw new McpError(this.server, `${message.method} timed out after ${timeoutMs / 1000}s`);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    async notify(message: JsonRpcMessage): Promise<void> {
+        await this.post(message);
+    }
+
+    async close(): Promise<void> {
+        if (!this.sessionId) {
+            return;
+        }
+        // Ends the session on the server; it may not support that, which is fine
+        await fetch(this.url, { method: 'DELETE', headers: { ...this.headers, 'mcp-session-id': this.sessionId } }).catch(() => {});
+    }
+}
+
+/**
+ * We offer no client capabilities, so only ping gets a real answer.
+ */
+function answerServerRequest(message: JsonRpcMessage): Pick<JsonRpcMessage, 'result' | 'error'> {
+    if (message.method === 'ping') {
+        return { result: {} };
+    }
+    return { error: { code: -32601, message: `Method not supported: ${message.method}` } };
+}
+
+/**
+ * server + tool as one function name the chat APIs accept. Everything but
+ * letters, digits and _ becomes _ (also -, so permission patterns, hooks and
+ * allowed-tools, which match \w+ names, can refer to it).
+ */
+export function mcpToolName(server: string, tool: string): string {
+    return `mcp__${server}__${tool}`.replace(/\W/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * A tools/call result as a tool result: text joined, images passed on,
+ * resources inlined when they carry text.
+ */
+function toToolOutput(content: McpContent[]): ToolOutput {
+    const text: string[] = [];
+    const images: ToolImage[] = [];
+    for (const item of content) {
+        switch (item.type) {
+            case 'text':
+                text.push(item.text);
+                break;
+            case 'image':
+                images.push({ mimeType: item.mimeType, data: item.data });
+                break;
+            case 'audio':
+                text.push(`(${item.mimeType} audio not shown)`);
+                break;
+            case 'resource':
+                text.push(item.resource.text ?? `(resource ${item.resource.uri})`);
+                break;
+            case 'resource_link':
+                text.push(`(resource ${item.uri}${item.name ? `: ${item.name}` : ''})`);
+                break;
+        }
+    }
+    return { text: text.join('\n') || '(no output)', images };
+}
+
+/**
+ * One server: its connection, status and tools.
+ */
+export class McpClient {
+    status: McpStatus = 'connecting';
+    // Why it failed, when it did
+    error?: string;
+    tools: McpToolInfo[] = [];
+    serverInfo?: { name: string; version?: string };
+    private transport?: Transport;
+    private nextId = 1;
+    private timeoutMs: number;
+
+    constructor(
+        readonly name: string,
+        readonly config: McpServerConfig,
+        private workspaceDir: string,
+    ) {
+        this.timeoutMs = (config.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    }
+
+    get transportName(): 'stdio' | 'http' {
+        return 'command' in this.config ? 'stdio' : 'http';
+    }
+
+    async connect(): Promise<void> {
+        try {
+            this.transport = 'command' in this.config
+                ? new StdioTransport(this.name, this.config, this.workspaceDir)
+                : new HttpTransport(this.name, this.config);
+            const init = await this.request('initialize', {
+                protocolVersion: PROTOCOL_VERSION,
+                capabilities: {},
+                clientInfo: CLIENT_INFO,
+            });
+            this.serverInfo = init.serverInfo;
+            await this.transport.notify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+            this.tools = [];
+            let cursor: string | undefined;
+            do {
+                const page = await this.request('tools/list', cursor ? { cursor } : {});
+                this.tools.push(...(page.tools ?? []));
+                cursor = page.nextCursor;
+            } while (cursor);
+            this.status = 'connected';
+        } catch (error: any) {
+            this.status = 'failed';
+            this.error = error.message.replace(`MCP ${this.name}: `, '');
+            await this.transport?.close().catch(() => {});
+        }
+    }
+
+    private async request(method: string, params: unknown): Promise<any> {
+        if (!this.transport) {
+            throw new McpError(this.name, 'not connected');
+        }
+        const response = await this.transport.request({ jsonrpc: '2.0', id: this.nextId++, method, params }, this.timeoutMs);
+        if (response.error) {
+            throw new McpError(this.name, response.error.message, response.error.code);
+        }
+        return response.result;
+    }
+
+    async callTool(name: string, args: Record<string, any>): Promise<ToolOutput> {
+        if (this.status !== 'connected') {
+            throw new McpError(this.name, `server is ${this.status}${this.error ? ` (${this.error})` : ''}`);
+        }
+        const result = await this.request('tools/call', { name, arguments: args });
+        const output = toToolOutput(result?.content ?? []);
+        if (result?.isError) {
+            // The agent turns this into "Error: ..." for the model
+            throw new Error(output.text);
+        }
+        return output;
+    }
+
+    /**
+     * The server's tools as registry tools, namespaced by server.
+     */
+    registryTools(): Tool[] {
+        return this.tools.map(info => ({
+            name: mcpToolName(this.name, info.name),
+            description: `${info.description ?? info.name} (MCP server ${this.name})`,
+            parameters: { type: 'object', properties: {}, ...info.inputSchema },
+            handler: args => this.callTool(info.name, args),
+            // Trusted as far as the server says; unannotated tools ask first
+            readOnly: info.annotations?.readOnlyHint === true,
+            destructive: info.annotations?.destructiveHint === true,
+        }));
+    }
+
+    async close(): Promise<void> {
+        if (this.status === 'connected') {
+            this.status = 'closed';
+        }
+        await this.transport?.close();
+    }
+}
+
+/**
+ * All configured servers. Connecting never throws: a server that can't
+ * start is marked failed and left out.
+ */
+export class McpManager {
+    readonly clients: McpClient[];
+
+    constructor(servers: McpServersConfig, workspaceDir: string) {
+        this.clients = Object.entries(servers).map(([name, config]) => new McpClient(name, config, workspaceDir));
+    }
+
+    async connect(): Promise<void> {
+        await Promise.all(this.clients.map(client => client.connect()));
+        for (const client of this.clients.filter(c => c.status === 'failed')) {
+            console.warn(`⚠️  MCP server ${client.name} failed to start: ${client.error}`);
+        }
+    }
+
+    tools(): Tool[] {
+        return this.registeredTools().flatMap(({ client, tools, skipped }) => {
+            for (const name of skipped) {
+                console.warn(`⚠️  Skipping ${name} of MCP server ${client.name}: another MCP tool has the same name`);
+            }
+            return tools;
+        });
+    }
+
+    /**
+     * Each connected server's tools. Two that end up with the same name (after
+     * replacing characters and truncating) can't both be registered; the
+     * first wins.
+     */
+    private registeredTools(): { client: McpClient; tools: Tool[]; skipped: string[] }[] {
+        const names = new Set<string>();
+        return this.clients.filter(client => client.status === 'connected').map(client => {
+            const tools: Tool[] = [];
+            const skipped: string[] = [];
+            for (const tool of client.registryTools()) {
+                if (names.has(tool.name)) {
+                    skipped.push(tool.name);
+                    continue;
+                }
+                names.add(tool.name);
+                tools.push(tool);
+            }
+            return { client, tools, skipped };
+        });
+    }
+
+    /**
+     * The /mcp listing:
+     *
+     *   db      stdio  connected  acme-db 1.2.0  3 tools: mcp__db__query, ...
+     *   issues  http   failed     HTTP 401: unauthorized
+     */
+    render(): string {
+        if (this.clients.length === 0) {
+            return 'No MCP servers configured (add "mcpServers" to a settings file)';
+        }
+        const nameWidth = Math.max(...this.clients.map(client => client.name.length));
+        const registered = this.registeredTools();
+        return this.clients.map(client => {
+            const head = `${client.name.padEnd(nameWidth)}  ${client.transportName.padEnd(5)}  ${client.status.padEnd(10)}`;
+            if (client.status === 'failed') {
+                return `${head}  ${client.error}`;
+            }
+            const server = client.serverInfo ? `${client.serverInfo.name}${client.serverInfo.version ? ` ${client.serverInfo.version}` : ''}  ` : '';
+            const { tools, skipped } = registered.find(entry => entry.client === client) ?? { tools: [], skipped: [] };
+            const names = tools.map(tool => tool.name);
+            const clashes = skipped.length > 0 ? ` (${skipped.length} skipped: same name as another tool)` : '';
+            return `${head}  ${server}${names.length} tool(s)${names.length > 0 ? `: ${names.join(', ')}` : ''}${clashes}`;
+        }).join('\n');
+    }
+
+    async close(): Promise<void> {
+        await Promise.all(this.clients.map(client => client.close().catch(() => {})));
+    }
+}
+
+/**
+ * Start every configured server and wait until each is up or has failed.
+ */
+export async function connectMcpServers(servers: McpServersConfig, workspaceDir: string): Promise<McpManager> {
+    const manager = new McpManager(servers, workspaceDir);
+    await manager.connect();
+    return manager;
+}
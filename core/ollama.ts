@@ -0,0 +1,194 @@
+/**
+ * core/ollama.ts
+ *
+ * A local Ollama server's native /api/chat. Close to Chat Completions, with
+ * a few differences the mapping covers:
+ *
+ *   tool call arguments  objects, not JSON strings
+ *   tool call ids        none; we make them up so tool messages can refer back
+ *   tool results         { role: "tool", tool_name, content }
+ *   images               base64 strings in message.images, beside the text
+ *
+ * Streaming is one JSON object per line; tool calls arrive whole in one of
+ * them, and the last has done: true and a done_reason.
+ */
+
+import type { ChatCompletionContentPart, ChatCompletionMessage, ChatCompletionMessageParam } from 'openai/resources';
+import {
+    normalizeStopReason,
+    parseDataUrl,
+    parseToolArguments,
+    ProviderError,
+    type CompletionRequest,
+    type CompletionResult,
+    type Provider,
+    type ProviderEndpoint,
+} from './provider';
+import { readLines, StreamPrinter } from './stream';
+import type { TokenUsage } from './usage';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+interface OllamaMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    images?: string[];
+    tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[];
+    tool_name?: string;
+}
+
+interface OllamaToolCall {
+    function: { name: string; arguments: Record<string, unknown> | string };
+}
+
+function textAndImages(content: string | ChatCompletionContentPart[] | null | undefined): { content: string; images?: string[] } {
+    if (!content || typeof content === 'string') {
+        return { content: content ?? '' };
+    }
+    const text: string[] = [];
+    const images: string[] = [];
+    for (const part of content) {
+        if (part.type === 'text') {
+            text.push(part.text);
+        } else if (part.type === 'image_url') {
+            const image = parseDataUrl(part.image_url.url);
+            if (image) {
+                images.push(image.data);
+            }
+        }
+    }
+    return images.length > 0 ? { content: text.join('\n'), images } : { content: text.join('\n') };
+}
+
+export function toOllamaMessages(messages: ChatCompletionMessageParam[]): OllamaMessage[] {
+    // Tool messages name their tool; ours only carry the call id
+    const toolNames = new Map<string, string>();
+    const result: OllamaMessage[] = [];
+    for (const message of messages) {
+        switch (message.role) {
+            case 'system':
+            case 'developer':
+                result.push({ role: 'system', ...textAndImages(message.content) });
+                break;
+            case 'user':
+                result.push({ role: 'user', ...textAndImages(message.content) });
+                break;
+            case 'assistant': {
+                const content = typeof message.content === 'string' ? message.content : message.content?.filter(part => part.type === 'text');
+                const entry: OllamaMessage = { role: 'assistant', content: textAndImages(content).content };
+                const calls = (message.tool_calls ?? []).filter(toolCall => toolCall.type === 'function');
+                if (calls.length > 0) {
+                    entry.tool_calls = calls.map(toolCall => {
+                        toolNames.set(toolCall.id, toolCall.function.name);
+                        return { function: { name: toolCall.function.name, arguments: parseToolArguments(toolCall.function.arguments) } };
+                    });
+                }
+                result.push(entry);
+                break;
+            }
+            case 'tool':
+                result.push({
+                    role: 'tool',
+                    content: typeof message.content === 'string' ? message.content : message.content.map(part => part.text).join(''),
+                    tool_name: toolNames.get(message.tool_call_id),
+                });
+                break;
+        }
+    }
+    return result;
+}
+
+function toAssistantMessage(text: string, toolCalls: OllamaToolCall[]): ChatCompletionMessage {
+    const message: ChatCompletionMessage = { role: 'assistant', content: text || null, refusal: null };
+    if (toolCalls.length > 0) {
+        message.tool_calls = toolCalls.map(toolCall => ({
+            id: `call_${crypto.randomUUID().slice(0, 8)}`,
+            type: 'function',
+            function: {
+                name: toolCall.function.name,
+                arguments: typeof toolCall.function.arguments === 'string' ? toolCall.function.arguments : JSON.stringify(toolCall.function.arguments ?? {}),
+            },
+        }));
+    }
+    return message;
+}
+
+// Counts arrive on the final (done) object
+function tokenUsage(data: any): TokenUsage | undefined {
+    if (data?.prompt_eval_count === undefined && data?.eval_count === undefined) {
+        return undefined;
+    }
+    return { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0, cachedTokens: 0 };
+}
+
+export class OllamaProvider implements Provider {
+    readonly name = 'ollama';
+    private baseUrl: string;
+
+    constructor(endpoint: ProviderEndpoint) {
+        this.baseUrl = (endpoint.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    }
+
+    async complete(request: CompletionRequest, options: { stream: boolean }): Promise<CompletionResult | undefined> {
+        const response = await fetch(`${this.baseUrl}/api/chat`, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify({
+                model: request.model,
+                messages: toOllamaMessages(request.messages),
+                ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+                stream: options.stream,
+            }),
+            signal: request.signal,
+        });
+        if (!response.ok) {
+            throw await ProviderError.from(this.name, response);
+        }
+        if (!options.stream || !response.body) {
+            const data: any = await response.json();
+            const message = toAssistantMessage(data.message?.content ?? '', data.message?.tool_calls ?? []);
+            return {
+                message,
+                finishReason: normalizeStopReason(data.done_reason, message),
+                rawFinishReason: data.done_reason,
+                streamed: false,
+                usage: tokenUsage(data),
+            };
+        }
+
+        const printer = request.printer ?? new StreamPrinter();
+        let text = '';
+        let doneReason: string | undefined;
+        let usage: TokenUsage | undefined;
+        let received = false;
+        const toolCalls: OllamaToolCall[] = [];
+        try {
+            for await (const line of readLines(response.body)) {
+                if (!line.trim()) {
+                    continue;
+                }
+                const chunk = JSON.parse(line);
+                if (chunk.error) {
+                    throw new ProviderError(this.name, 500, chunk.error);
+                }
+                received = true;
+                if (chunk.message?.content) {
+                    text += chunk.message.content;
+                    printer.text(chunk.message.content);
+                }
+                toolCalls.push(...(chunk.message?.tool_calls ?? []));
+                if (chunk.done) {
+                    doneReason = chunk.done_reason;
+                    usage = tokenUsage(chunk);
+                }
+            }
+        } finally {
+            printer.end();
+        }
+        if (!received) {
+            return undefined;
+        }
+        const message = toAssistantMessage(text, toolCalls);
+        return { message, finishReason: normalizeStopReason(doneReason, message), rawFinishReason: doneReason, streamed: true, usage };
+    }
+}
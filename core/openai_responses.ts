@@ -0,0 +1,169 @@
+/**
+ * core/openai_responses.ts
+ *
+ * The OpenAI Responses API. Instead of messages it takes a list of input
+ * items, and answers with output items:
+ *
+ *   system message          -> instructions
+ *   user / assistant text   -> { role, content } items (input_text, input_image)
+ *   assistant tool_calls    -> { type: "function_call", call_id, name, arguments }
+ *   tool message            -> { type: "function_call_output", call_id, output }
+ *
+ * Requests are sent with store: false; the whole history goes every time,
+ * as with the other providers, so sessions and /model switches keep working.
+ */
+
+import type OpenAI from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionMessage, ChatCompletionMessageParam } from 'openai/resources';
+import type { Response, ResponseCreateParamsNonStreaming, ResponseInputContent, ResponseInputItem } from 'openai/resources/responses/responses';
+import { normalizeStopReason, type CompletionRequest, type CompletionResult, type Provider } from './provider';
+import { StreamPrinter } from './stream';
+
+function inputContent(content: string | ChatCompletionContentPart[]): string | ResponseInputContent[] {
+    if (typeof content === 'string') {
+        return content;
+    }
+    const parts: ResponseInputContent[] = [];
+    for (const part of content) {
+        if (part.type === 'text') {
+            parts.push({ type: 'input_text', text: part.text });
+        } else if (part.type === 'image_url') {
+            parts.push({ type: 'input_image', image_url: part.image_url.url, detail: 'auto' });
+        }
+    }
+    return parts;
+}
+
+function text(content: string | { text: string }[] | null | undefined): string {
+    if (!content) {
+        return '';
+    }
+    return typeof content === 'string' ? content : content.map(part => part.text).join('');
+}
+
+export function toResponsesInput(messages: ChatCompletionMessageParam[]): { instructions: string; input: ResponseInputItem[] } {
+    const instructions: string[] = [];
+    const input: ResponseInputItem[] = [];
+    for (const message of messages) {
+        switch (message.role) {
+            case 'system':
+            case 'developer':
+                instructions.push(text(message.content));
+                break;
+            case 'user':
+                input.push({ role: 'user', content: inputContent(message.content) });
+                break;
+            case 'assistant': {
+                const content = text(typeof message.content === 'string' ? message.content : message.content?.filter(part => part.type === 'text'));
+                if (content) {
+                    input.push({ role: 'assistant', content });
+                }
+                for (const toolCall of message.tool_calls ?? []) {
+                    if (toolCall.type === 'function') {
+                        input.push({ type: 'function_call', call_id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments });
+                    }
+                }
+                break;
+            }
+            case 'tool':
+                input.push({ type: 'function_call_output', call_id: message.tool_call_id, output: text(message.content) });
+                break;
+        }
+    }
+    return { instructions: instructions.join('\n\n'), input };
+}
+
+/**
+ * The output items as one Chat Completions assistant message, and why it stopped.
+ */
+function toCompletion(response: Response, streamed: boolean): CompletionResult {
+    let content = '';
+    let refusal = '';
+    const message: ChatCompletionMessage = { role: 'assistant', content: null, refusal: null };
+    for (const item of response.output) {
+        if (item.type === 'message') {
+            for (const part of item.content) {
+                if (part.type === 'output_text') {
+                    content += part.text;
+                } else if (part.type === 'refusal') {
+                    refusal += part.refusal;
+                }
+            }
+        } else if (item.type === 'function_call') {
+            (message.tool_calls ??= []).push({
+                id: item.call_id,
+                type: 'function',
+                function: { name: item.name, arguments: item.arguments },
+            });
+        }
+    }
+    message.content = content || null;
+    message.refusal = refusal || null;
+    // "incomplete" says why in incomplete_details; a refusal is a content_filter stop
+    const reason = response.status === 'incomplete'
+        ? response.incomplete_details?.reason ?? 'incomplete'
+        : refusal && !content ? 'refusal' : response.status ?? 'completed';
+    const usage = response.usage ? {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        cachedTokens: response.usage.input_tokens_details?.cached_tokens ?? 0,
+    } : undefined;
+    return { message, finishReason: normalizeStopReason(reason, message), rawFinishReason: reason, streamed, usage };
+}
+
+export class OpenAIResponsesProvider implements Provider {
+    readonly name = 'openai-responses';
+
+    constructor(readonly client: OpenAI) {}
+
+    async complete(request: CompletionRequest, options: { stream: boolean }): Promise<CompletionResult | undefined> {
+        const { instructions, input } = toResponsesInput(request.messages);
+        const params: ResponseCreateParamsNonStreaming = {
+            model: request.model,
+            input,
+            store: false,
+            ...(instructions ? { instructions } : {}),
+            ...(request.tools && request.tools.length > 0 ? {
+                tools: request.tools.flatMap(tool => tool.type === 'function' ? [{
+                    type: 'function' as const,
+                    name: tool.function.name,
+                    description: tool.function.description,
+                    parameters: tool.function.parameters ?? null,
+                    strict: false,
+                }] : []),
+            } : {}),
+        };
+        if (!options.stream) {
+            return toCompletion(await this.client.responses.create(params, { signal: request.signal }), false);
+        }
+
+        const printer = request.printer ?? new StreamPrinter();
+        // Call names by output index, for the progress line
+        const names = new Map<number, string>();
+        const argumentSizes = new Map<number, number>();
+        let final: Response | undefined;
+        try {
+            const stream = await this.client.responses.create({ ...params, stream: true }, { signal: request.signal });
+            for await (const event of stream) {
+                if (event.type === 'response.output_text.delta') {
+                    printer.text(event.delta);
+                } else if (event.type === 'response.output_item.added' && event.item.type === 'function_call') {
+                    names.set(event.output_index, event.item.name);
+                } else if (event.type === 'response.function_call_arguments.delta') {
+                    const size = (argumentSizes.get(event.output_index) ?? 0) + event.delta.length;
+                    argumentSizes.set(event.output_index, size);
+                    printer.toolProgress(names.get(event.output_index) ?? '', size);
+                } else if (event.type === 'response.completed' || event.type === 'response.incomplete') {
+                    final = event.response;
+                } else if (event.type === 'response.failed') {
+                    throw new Error(`Response failed: ${event.response.error?.message ?? 'unknown error'}`);
+                } else if (event.type === 'error') {
+                    throw new Error(`Response failed: ${event.message}`);
+                }
+            }
+        } finally {
+            printer.end();
+        }
+        return final ? toCompletion(final, true) : undefined;
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * core/output.ts
+ *
+ * One-shot runs for scripts and CI. `--output-format` picks what stdout
+ * carries:
+ *
+ *   | Format      | stdout                                         | Progress |
+ *   |-------------|------------------------------------------------|----------|
+ *   | text        | the usual emoji log and streamed answer        | stdout   |
+ *   | json        | one result object when the run ends            | stderr   |
+ *   | stream-json | one event per line (NDJSON) as things happen   | stderr   |
+ *
+ * Events, all with a "type":
+ *
+ *   {"type":"init","sessionId":"...","model":"gpt-4o","provider":"openai","workspaceDir":"...","tools":["bash",...]}
+ *   {"type":"assistant","text":"Let me look at the tests."}
+ *   {"type":"tool_call","id":"call_1","name":"bash","args":{"command":"bun test"}}
+ *   {"type":"tool_result","id":"call_1","name":"bash","output":"exit code: 0\n...","isError":false}
+ *   {"type":"todo_update","todos":[{"id":"t1","content":"Fix test","status":"in_progress","activeForm":"Fixing test"}]}
+ *   {"type":"usage","model":"gpt-4o","inputTokens":2104,"outputTokens":88,"cachedTokens":0,"cost":0.0061}
+ *   {"type":"result","status":"success","isError":false,"result":"All tests pass.","turns":3,...}
+ *
+ * The json format prints just the result event. The exit code says how the
+ * run ended:
+ *
+ *   0    the model finished           2  a budget ran out (limits.maxTokens / maxCostUsd)
+ *   1    an error, or a cut-off reply  3  limits.maxTurns model requests were not enough
+ *   130  interrupted (Agent.interrupt)
+ */
+
+import type { Agent, RunStop, SendOptions } from './agent';
+import type { Todo } from './todos';
+import type { TokenUsage } from './usage';
+
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'stream-json'];
+
+export type ResultStatus = 'success' | RunStop['reason'];
+
+export type AgentEvent =
+    | { type: 'init'; sessionId?: string; model: string; provider: string; workspaceDir: string; tools: string[] }
+    | { type: 'assistant'; text: string }
+    | { type: 'tool_call'; id: string; name: string; args: unknown }
+    | { type: 'tool_result'; id: string; name: string; output: string; isError: boolean }
+    | { type: 'todo_update'; todos: Todo[] }
+    | ({ type: 'usage'; model: string; cost?: number } & TokenUsage)
+    | {
+        type: 'result';
+        status: ResultStatus;
+        isError: boolean;
+        // The final answer; on failure, what went wrong
+        result: string;
+        // Model requests this run
+        turns: number;
+        durationMs: number;
+        sessionId?: string;
+        usage: TokenUsage;
+        // Absent when a model had no price
+        costUsd?: number;
+    };
+
+export const EXIT_CODES: Record<ResultStatus, number> = {
+    success: 0,
+    error: 1,
+    truncated: 1,
+    budget: 2,
+    max_turns: 3,
+    // As for a process stopped by SIGINT
+    interrupted: 130,
+};
+
+/**
+ * Send everything meant for people (logs, streamed text, prompts) to
+ * stderr, so stdout holds only JSON.
+ */
+export function sendProgressToStderr(): void {
+    console.log = console.error;
+    console.info = console.error;
+    progressOutput = process.stderr;
+}
+
+let progressOutput: NodeJS.WriteStream = process.stdout;
+
+/**
+ * Where live output (streamed tokens) goes: stdout, or stderr in the JSON formats.
+ */
+export function progressStream(): NodeJS.WriteStream {
+    return progressOutput;
+}
+
+function writeJson(value: unknown): void {
+    process.stdout.write(JSON.stringify(value) + '\n');
+}
+
+/**
+ * Run one prompt to the end and report it in the given format. Returns the
+ * exit code; the caller decides whether to set it.
+ */
+export async function runOneShot(agent: Agent, prompt: string, format: OutputFormat, options: SendOptions = {}): Promise<number> {
+    const started = Date.now();
+    const runStart = agent.usage?.records().length ?? 0;
+    if (format === 'stream-json') {
+        agent.onEvent = writeJson;
+        writeJson({
+            type: 'init',
+            sessionId: agent.session?.id,
+            model: agent.model,
+            provider: agent.provider.name,
+            workspaceDir: agent.workspaceDir,
+            tools: agent.tools.list().map(tool => tool.name),
+        } satisfies AgentEvent);
+    }
+
+    agent.checkpoints?.beginTurn(prompt);
+    const answer = await agent.send(prompt, options);
+    const stop = agent.lastStop;
+    const status: ResultStatus = stop?.reason ?? (answer === null ? 'error' : 'success');
+
+    if (format === 'text') {
+        if (agent.usage) {
+            console.log(`\n${agent.usage.report()}`);
+        }
+        return EXIT_CODES[status];
+    }
+
+    const records = agent.usage?.records().slice(runStart) ?? [];
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+    let cost: number | undefined = 0;
+    for (const record of records) {
+        usage.inputTokens += record.inputTokens;
+        usage.outputTokens += record.outputTokens;
+        usage.cachedTokens += record.cachedTokens;
+        cost = cost === undefined || record.cost === undefined ? undefined : cost + record.cost;
+    }
+    writeJson({
+        type: 'result',
+        status,
+        isError: status !== 'success',
+        result: status === 'success' ? answer ?? '' : stop?.message ?? answer ?? 'The run ended without an answer',
+        turns: agent.requestCount,
+        durationMs: Date.now() - started,
+        sessionId: agent.session?.id,
+        usage,
+        costUsd: cost,
+    } satisfies AgentEvent);
+    return EXIT_CODES[status];
+}
@@ -0,0 +1,192 @@
+/**
+ * core/permissions.ts
+ *
+ * Approval layer that sits in front of tool execution.
+ *
+ * The model decides WHAT to run; the user decides WHETHER it runs.
+ * Every tool call is classified as read-only or mutating (from the tool's
+ * metadata), then checked against the active policy:
+ *
+ *   | Mode        | Read-only calls | Mutating calls                     |
+ *   |-------------|-----------------|------------------------------------|
+ *   | ask         | ask             | ask                                |
+ *   | auto-read   | allow           | ask                                |
+ *   | allow-list  | allow           | allow if a pattern matches, or ask |
+ *   | deny        | allow           | deny                               |
+ *
+ * "ask" shows the exact command or diff in an inquirer prompt. Answers can
+ * be remembered for the rest of the session. When there is no terminal to
+ * ask on, the call fails closed with a PermissionDeniedError, which the
+ * agent loop turns into a tool error for the model.
+ */
+
+export type PermissionMode = 'ask' | 'auto-read' | 'allow-list' | 'deny';
+
+export const PERMISSION_MODES: PermissionMode[] = ['ask', 'auto-read', 'allow-list', 'deny'];
+
+export interface PermissionOptions {
+    mode: PermissionMode;
+    // Patterns such as "bash(git status*)", "edit(src/*)" or a bare tool name "write"
+    allowPatterns?: string[];
+    // Whether a user is around to answer prompts (defaults to stdin/stdout being a TTY)
+    interactive?: boolean;
+}
+
+type Decision = 'allow' | 'deny';
+
+export interface PermissionRequest {
+    toolName: string;
+    args: Record<string, any>;
+    readOnly: boolean;
+    // Renders the exact command or diff for the prompt
+    preview: () => Promise<string>;
+}
+
+export class PermissionDeniedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermissionDeniedError';
+    }
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * The string a pattern is matched against: the command for bash,
+ * the path for file tools.
+ */
+function callSubject(toolName: string, args: Record<string, any>): string {
+    if (toolName === 'bash') {
+        return String(args.command ?? '').trim();
+    }
+    return String(args.path ?? '');
+}
+
+export function matchesPattern(pattern: string, toolName: string, args: Record<string, any>): boolean {
+    const match = pattern.match(/^(\w+)(?:\((.*)\))?$/);
+    if (!match || match[1] !== toolName) {
+        return false;
+    }
+    const subjectPattern = match[2];
+    if (subjectPattern === undefined) {
+        return true;
+    }
+    return wildcardToRegExp(subjectPattern).test(callSubject(toolName, args));
+}
+
+export class PermissionManager {
+    private mode: PermissionMode;
+    private allowPatterns: string[];
+    private interactive: boolean;
+    // Session-scoped answers, keyed by the rule they were given for
+    private remembered = new Map<string, Decision>();
+    // Tail of the prompt queue: parallel tool calls take turns at the terminal
+    private prompting: Promise<unknown> = Promise.resolve();
+
+    constructor(options: PermissionOptions) {
+        this.mode = options.mode;
+        this.allowPatterns = options.allowPatterns ?? [];
+        this.interactive = options.interactive ?? Boolean(process.stdin.isTTY && process.stdout.isTTY);
+    }
+
+    /**
+     * Resolve once the call is approved; throw PermissionDeniedError otherwise.
+     */
+    async check(request: PermissionRequest): Promise<void> {
+        const { toolName, args } = request;
+        if (request.readOnly && this.mode !== 'ask') {
+            return;
+        }
+        if (this.mode === 'deny') {
+            throw new PermissionDeniedError(`Permission denied: ${toolName} is not allowed (permission mode "deny")`);
+        }
+        if (this.mode === 'allow-list' && this.allowPatterns.some(p => matchesPattern(p, toolName, args))) {
+            return;
+        }
+
+        const rule = this.ruleFor(toolName, args);
+        const remembered = this.remembered.get(rule);
+        if (remembered === 'allow') {
+            return;
+        }
+        if (remembered === 'deny') {
+            throw new PermissionDeniedError(`Permission denied: user rejected ${rule} for this session`);
+        }
+
+        if (!this.interactive) {
+            throw new PermissionDeniedError(
+                `Permission required for ${toolName} but no interactive terminal is available to approve it. ` +
+                `Run in the REPL, or set PERMISSION_MODE=allow-list with a matching PERMISSION_ALLOW pattern.`
+            );
+        }
+
+        const decision = await this.ask(request, rule);
+        if (decision === 'deny') {
+            throw new PermissionDeniedError(`Permission denied: user rejected ${toolName}`);
+        }
+    }
+
+    /**
+     * The key a remembered answer applies to: one exact command for bash,
+     * every call for file tools.
+     */
+    private ruleFor(toolName: string, args: Record<string, any>): string {
+        if (toolName === 'bash') {
+            return `bash(${callSubject(toolName, args)})`;
+        }
+        return toolName;
+    }
+
+    /**
+     * Queue a prompt behind any already showing. An answer remembered while
+     * waiting settles the queued calls it covers without asking again.
+     */
+    private ask(request: PermissionRequest, rule: string): Promise<Decision> {
+        const decision = this.prompting.then(() => this.remembered.get(rule) ?? this.prompt(request, rule));
+        this.prompting = decision.catch(() => undefined);
+        return decision;
+    }
+
+    private async prompt(request: PermissionRequest, rule: string): Promise<Decision> {
+        console.log(`\n🔐 ${request.toolName} wants to run:\n${await request.preview()}\n`);
+
+        const inquirer = (await import('inquirer')).default;
+        const { answer } = await inquirer.prompt([
+            {
+                type: 'select',
+                name: 'answer',
+                message: 'Allow?',
+                choices: [
+                    { name: 'Yes', value: 'allow-once' },
+                    { name: `Yes, and don't ask again for ${rule} this session`, value: 'allow-always' },
+                    { name: 'No', value: 'deny-once' },
+                    { name: `No, and reject ${rule} for the rest of this session`, value: 'deny-always' },
+                ],
+            },
+        ]);
+
+        const decision: Decision = answer.startsWith('allow') ? 'allow' : 'deny';
+        if (answer.endsWith('always')) {
+            this.remembered.set(rule, decision);
+        }
+        return decision;
+    }
+}
+
+/**
+ * Build a PermissionManager from PERMISSION_MODE / PERMISSION_ALLOW.
+ */
+export function permissionsFromEnv(): PermissionManager {
+    const mode = (process.env.PERMISSION_MODE || 'auto-read') as PermissionMode;
+    if (!PERMISSION_MODES.includes(mode)) {
+        throw new Error(`Invalid PERMISSION_MODE: ${mode} (expected one of ${PERMISSION_MODES.join(', ')})`);
+    }
+    const allowPatterns = (process.env.PERMISSION_ALLOW || '')
+        .split(',')
+        .map(p => p.trim())
+        .filter(Boolean);
+    return new PermissionManager({ mode, allowPatterns });
+}
@@ -0,0 +1,226 @@
+/**
+ * core/provider.ts
+ *
+ * One interface in front of every model API. The agent keeps its history in
+ * OpenAI Chat Completions shape (that's what sessions store); each provider
+ * translates it on the way out and translates the answer back:
+ *
+ *   | Provider         | API                          | Tool calls come back as     |
+ *   |------------------|------------------------------|-----------------------------|
+ *   | openai           | POST /chat/completions       | message.tool_calls          |
+ *   | openai-responses | POST /responses              | function_call output items  |
+ *   | anthropic        | POST /v1/messages            | tool_use content blocks     |
+ *   | ollama           | POST /api/chat               | message.tool_calls, no ids  |
+ *
+ * Stop reasons are normalized to the Chat Completions names the agent loop
+ * switches on:
+ *
+ *   tool_calls      the model wants tools run (whatever the API called it)
+ *   stop            finished its answer
+ *   length          hit the output token limit
+ *   content_filter  refused or filtered
+ *
+ * A model can be given with its provider, "anthropic:claude-sonnet-4-5";
+ * a bare name keeps the current provider. `/model` switches mid-session.
+ */
+
+import type { ChatCompletionMessage, ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources';
+import OpenAI from 'openai';
+import { AnthropicProvider } from './anthropic';
+import { OllamaProvider } from './ollama';
+import { OpenAIResponsesProvider } from './openai_responses';
+import { complete, type StreamPrinter } from './stream';
+import type { TokenUsage } from './usage';
+
+export type ProviderName = 'openai' | 'openai-responses' | 'anthropic' | 'ollama';
+
+export const PROVIDERS: ProviderName[] = ['openai', 'openai-responses', 'anthropic', 'ollama'];
+
+export type StopReason = 'tool_calls' | 'stop' | 'length' | 'content_filter' | 'unknown';
+
+export interface CompletionRequest {
+    model: string;
+    messages: ChatCompletionMessageParam[];
+    // Omitted or empty for plain text calls (e.g. compaction summaries)
+    tools?: ChatCompletionTool[];
+    // Aborts the request (Agent.interrupt, Esc in the REPL)
+    signal?: AbortSignal;
+    // Prints a streamed reply; the agent keeps one across retries so text a broken stream showed isn't shown twice
+    printer?: StreamPrinter;
+}
+
+export interface CompletionResult {
+    // Always an assistant message in Chat Completions shape
+    message: ChatCompletionMessage;
+    finishReason: StopReason;
+    // What the API actually said, for the "unknown stop reason" warning
+    rawFinishReason?: string;
+    // True when the text was already printed while streaming
+    streamed: boolean;
+    // Absent when the API didn't report it
+    usage?: TokenUsage;
+}
+
+export interface Provider {
+    readonly name: ProviderName;
+    /**
+     * Ask the model for the next assistant message.
+     * Returns undefined when the response was empty.
+     */
+    complete(request: CompletionRequest, options: { stream: boolean }): Promise<CompletionResult | undefined>;
+}
+
+export interface ProviderEndpoint {
+    apiKey?: string;
+    baseUrl?: string;
+}
+
+/**
+ * A non-2xx answer from an API the SDK doesn't cover (Anthropic, Ollama).
+ * Carries the status like the OpenAI SDK's errors do.
+ */
+export class ProviderError extends Error {
+    constructor(
+        readonly provider: ProviderName,
+        readonly status: number,
+        message: string,
+        readonly headers?: Headers,
+    ) {
+        super(`${provider} API error ${status}: ${message}`);
+        this.name = 'ProviderError';
+    }
+
+    /**
+     * Build one from a failed fetch response, using the API's error message when there is one.
+     */
+    static async from(provider: ProviderName, response: Response): Promise<ProviderError> {
+        const body = await response.text().catch(() => '');
+        let message = body || response.statusText;
+        try {
+            const parsed = JSON.parse(body);
+            message = parsed?.error?.message ?? parsed?.error ?? message;
+        } catch {
+            // Not JSON; keep the text
+        }
+        return new ProviderError(provider, response.status, String(message), response.headers);
+    }
+}
+
+/**
+ * Map an API's stop reason to ours. A response that carries tool calls is
+ * always 'tool_calls': some backends say "stop" even when calling tools.
+ */
+export function normalizeStopReason(reason: string | null | undefined, message: ChatCompletionMessage): StopReason {
+    if (message.tool_calls && message.tool_calls.length > 0) {
+        return 'tool_calls';
+    }
+    switch (reason) {
+        case 'tool_calls':
+        case 'function_call':
+        case 'tool_use':
+            return 'tool_calls';
+        case 'stop':
+        case 'end_turn':
+        case 'stop_sequence':
+        case 'completed':
+            return 'stop';
+        case 'length':
+        case 'max_tokens':
+        case 'max_output_tokens':
+            return 'length';
+        case 'content_filter':
+        case 'refusal':
+            return 'content_filter';
+        default:
+            return 'unknown';
+    }
+}
+
+/**
+ * Image parts of our messages are data URLs; the other APIs want the pieces.
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | undefined {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+    return match ? { mimeType: match[1]!, data: match[2]! } : undefined;
+}
+
+/**
+ * Tool arguments are JSON strings in our history and objects in some APIs.
+ */
+export function parseToolArguments(json: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(json || '{}');
+        return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+export function providerFromEnv(): ProviderName {
+    const name = process.env.AI_PROVIDER || 'openai';
+    if (!PROVIDERS.includes(name as ProviderName)) {
+        throw new Error(`Invalid AI_PROVIDER: ${name} (expected one of ${PROVIDERS.join(', ')})`);
+    }
+    return name as ProviderName;
+}
+
+/**
+ * "anthropic:claude-sonnet-4-5" -> provider and model. Only a known provider
+ * name counts as a prefix, since Ollama models have colons ("llama3.1:8b").
+ */
+export function parseModelSpec(spec: string, defaultProvider: ProviderName): { provider: ProviderName; model: string } {
+    const colon = spec.indexOf(':');
+    const prefix = colon === -1 ? '' : spec.slice(0, colon);
+    if (PROVIDERS.includes(prefix as ProviderName)) {
+        return { provider: prefix as ProviderName, model: spec.slice(colon + 1) };
+    }
+    return { provider: defaultProvider, model: spec };
+}
+
+/**
+ * OpenAI Chat Completions, and every backend that speaks it (vLLM, LM Studio,
+ * OpenRouter, ...). The history is already in this shape.
+ */
+export class OpenAIChatProvider implements Provider {
+    readonly name = 'openai';
+
+    constructor(readonly client: OpenAI) {}
+
+    complete(request: CompletionRequest, options: { stream: boolean }): Promise<CompletionResult | undefined> {
+        const tools = request.tools && request.tools.length > 0 ? { tools: request.tools, tool_choice: 'auto' as const } : {};
+        return complete(this.client, { model: request.model, messages: request.messages, ...tools }, { ...options, signal: request.signal, printer: request.printer });
+    }
+}
+
+/**
+ * An OpenAI SDK client for the configured endpoint, falling back to
+ * API_KEY / BASE_URL. The SDK's own retries are off; the agent retries
+ * every provider the same way (see retry.ts).
+ */
+export function createClient(endpoint: ProviderEndpoint = {}): OpenAI {
+    return new OpenAI({
+        apiKey: endpoint.apiKey ?? process.env.API_KEY,
+        baseURL: endpoint.baseUrl ?? process.env.BASE_URL,
+        maxRetries: 0,
+    });
+}
+
+/**
+ * A provider for the given API (AI_PROVIDER, default openai). Endpoint values
+ * fall back to each provider's environment variables, then to its public default.
+ */
+export function createProvider(name: ProviderName = providerFromEnv(), endpoint: ProviderEndpoint = {}): Provider {
+    switch (name) {
+        case 'openai':
+            return new OpenAIChatProvider(createClient(endpoint));
+        case 'openai-responses':
+            return new OpenAIResponsesProvider(createClient(endpoint));
+        case 'anthropic':
+            return new AnthropicProvider({
+                apiKey: endpoint.apiKey ?? process.env.ANTHROPIC_API_KEY ?? process.env.API_KEY,
+                baseUrl: endpoint.baseUrl ?? process.env.ANTHROPIC_BASE_URL,
+            });
+        case 'ollama':
+            return new OllamaProvider({ baseUrl: endpoint.baseUrl ?? process.env.OLLAMA_HOST });
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * core/repl.ts
+ *
+ * Command-line front end shared by v1 and v2: parse flags, load the config,
+ * open (or resume) a session, then either run one prompt or loop on user input.
+ */
+
+import type { Agent, SendOptions } from './agent';
+import { exitOnConfigError, parseCliArgs, readPromptFromStdin, type CliOptions } from './cli';
+import { loadCommands, type CommandRegistry, type CommandResult } from './commands';
+import { loadConfig, type AgentConfig } from './config';
+import { attachMentions, PromptHistory, readPrompt, watchForEscape } from './input';
+import { runOneShot, sendProgressToStderr } from './output';
+import { PROVIDERS } from './provider';
+import { openSession, type Session } from './session';
+import { StatusLine } from './status_line';
+
+export interface CliAppOptions {
+    // Shown in the REPL banner, e.g. "Mini Claude Code v1"
+    title: string;
+    // Model, workspace, tools, limits and permissions all come from the merged config
+    createAgent: (session: Session, config: AgentConfig) => Agent | Promise<Agent>;
+}
+
+export async function runCliApp(options: CliAppOptions): Promise<void> {
+    let cli: CliOptions;
+    let loaded;
+    try {
+        cli = parseCliArgs(process.argv.slice(2));
+        // Before anything logs: in the JSON formats stdout is for JSON only
+        if (cli.outputFormat !== 'text') {
+            sendProgressToStderr();
+        }
+        loaded = await loadConfig({
+            model: cli.model,
+            cwd: cli.cwd,
+            config: cli.config,
+            maxTokens: cli.maxTokens,
+            maxCostUsd: cli.maxCostUsd,
+            maxTurns: cli.maxTurns,
+        });
+    } catch (error) {
+        return exitOnConfigError(error);
+    }
+    let prompt = cli.prompt || await readPromptFromStdin();
+    if (!prompt && cli.outputFormat !== 'text') {
+        console.error(`❌ --output-format ${cli.outputFormat} needs a prompt, as arguments or on stdin`);
+        process.exitCode = 1;
+        return;
+    }
+    const { config } = loaded;
+    const { session, resumed } = await openSession({
+        resume: cli.resume,
+        continueLatest: cli.continue,
+        model: config.model,
+        workspaceDir: config.workspaceDir,
+        messages: [],
+    });
+    let agent: Agent;
+    let commands: CommandRegistry;
+    try {
+        // Feature settings (hooks, ...) and command templates are read here and can be invalid too
+        agent = await options.createAgent(session, config);
+        commands = await loadCommands(config.workspaceDir);
+    } catch (error) {
+        return exitOnConfigError(error);
+    }
+    await agent.hooks?.sessionStart({ sessionId: session.id, model: agent.model, resumed });
+
+    // v2: the in_progress todo stays in view at the bottom of the terminal
+    const statusLine = new StatusLine();
+    const todos = agent.todos;
+    if (todos && cli.outputFormat === 'text') {
+        todos.onChange(() => statusLine.set(todos.status()));
+        statusLine.set(todos.status());
+    }
+
+    // 处理命令行参数模式（单次执行）
+    if (prompt) {
+        // Templates work here too (bun v1_basic_agent.ts "/fix-tests"); built-ins are for the REPL
+        const parsed = commands.parse(prompt);
+        const command = parsed && commands.get(parsed.name);
+        let sendOptions: SendOptions = {};
+        if (parsed && command && command.source !== 'built-in') {
+            const result = await command.run(parsed.args, { agent, loaded, commands });
+            prompt = result.prompt ?? prompt;
+            sendOptions = { allowedTools: result.allowedTools };
+        }
+        // CI can tell a finished run from one that ran out of budget or turns
+        process.exitCode = await runOneShot(agent, await attachMentions(prompt, agent.workspaceDir), cli.outputFormat, sendOptions);
+        statusLine.clear();
+        await agent.mcp?.close();
+        return;  // 单次模式，执行完退出
+    }
+
+    // REPL (Read-Eval-Print-Loop) 模式（连续对话）
+    console.log(`\n🤖 ${options.title} - ${config.workspaceDir} (${agent.provider.name}:${agent.model})`);
+    if (agent.sandbox) {
+        console.log(`Sandbox: ${agent.sandbox.mode}${agent.sandbox.policy.network ? ' (network allowed)' : ''}`);
+    }
+    if (resumed) {
+        console.log(`Resumed session ${session.id} (${session.messages.length} messages)`);
+        if (todos && todos.list().length > 0) {
+            console.log(`Plan so far:\n${todos.render()}`);
+        }
+    } else {
+        console.log(`Session ${session.id}`);
+    }
+    console.log(`Type 'exit' to quit, '/help' to list the commands.`);
+    console.log(`End a line with \\ to continue it, @path attaches a file, Up recalls earlier prompts, Esc stops the agent.`);
+    console.log(`'/model [provider:]name' switches the model (providers: ${PROVIDERS.join(', ')}); '/cost' shows token usage.`);
+    const custom = commands.list().filter(command => command.source !== 'built-in');
+    if (custom.length > 0) {
+        console.log(`Custom commands: ${custom.map(command => `/${command.name}`).join(', ')}`);
+    }
+    if (agent.mcp && agent.mcp.clients.length > 0) {
+        const connected = agent.mcp.clients.filter(client => client.status === 'connected').length;
+        console.log(`MCP: ${connected}/${agent.mcp.clients.length} server(s) connected; '/mcp' shows their tools.`);
+    }
+    if (agent.instructions.length > 0) {
+        console.log(`Loaded ${agent.instructions.length} instruction file(s); '/instructions' shows them.`);
+    }
+    if (agent.checkpoints) {
+        console.log(`'/undo' reverts the last turn's file changes, '/rewind <n>' the last n, '/checkpoints' lists them.`);
+    }
+    console.log();
+
+    const history = new PromptHistory();
+    await history.load();
+
+    while (true) {
+        try {
+            // Multiline, history and @ completion (see input.ts); null on Ctrl+C / Ctrl+D
+            let prompt = await readPrompt({ history, workspaceDir: agent.workspaceDir });
+            // Editing the line can clear the screen below it
+            statusLine.redraw();
+
+            // 检查退出命令
+            if (prompt === null || ['exit', 'quit', 'q'].includes(prompt.toLowerCase().trim())) {
+                console.log('\nGoodbye! 👋\n');
+                break;
+            }
+
+            const parsed = commands.parse(prompt);
+            let sendOptions: SendOptions = {};
+            if (parsed) {
+                const command = commands.get(parsed.name);
+                if (!command) {
+                    console.error(`\n❌ Unknown command /${parsed.name}; /help lists them\n`);
+                    continue;
+                }
+                let result: CommandResult;
+                try {
+                    result = await command.run(parsed.args, { agent, loaded, commands });
+                } catch (error: any) {
+                    console.error(`\n❌ Error: ${error.message}\n`);
+                    continue;
+                }
+                if (result.output) {
+                    console.log(`\n${result.output}\n`);
+                }
+                if (result.prompt === undefined) {
+                    continue;
+                }
+                prompt = result.prompt;
+                sendOptions = { allowedTools: result.allowedTools };
+            }
+
+            if (!prompt.trim()) {
+                continue;
+            }
+
+            // Esc stops the agent but not the REPL
+            const stopWatching = watchForEscape(() => agent.interrupt());
+            try {
+                // 运行 agent（会修改 history）
+                agent.checkpoints?.beginTurn(prompt);
+                await agent.send(await attachMentions(prompt, agent.workspaceDir), sendOptions);
+            } catch (error: any) {
+                console.error(`\n❌ Error: ${error.message}\n`);
+            } finally {
+                stopWatching();
+            }
+
+            console.log();  // 空行分隔每轮对话
+        } catch (error) {
+            // Ctrl+C 或其他中断
+            console.log('\nGoodbye! 👋\n');
+            break;
+        }
+    }
+    statusLine.clear();
+    if (agent.usage) {
+        console.log(agent.usage.report());
+    }
+    await agent.mcp?.close();
+    if (await Bun.file(session.file).exists()) {
+        console.log(`Session saved: ${session.id} (resume with --resume ${session.id})`);
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * core/retry.ts
+ *
+ * Model API failures, sorted into what to do about them:
+ *
+ *   | Kind             | Typical cause                   | Action                         |
+ *   |------------------|---------------------------------|--------------------------------|
+ *   | rate_limit       | 429                             | back off, retry, then fallback |
+ *   | overloaded       | 503, 529                        | back off, retry, then fallback |
+ *   | server           | 500, 502, 504                   | back off, retry, then fallback |
+ *   | network          | connection reset, timeout       | back off, retry, then fallback |
+ *   | not_found        | 404 (unknown model)             | fallback                       |
+ *   | context_overflow | prompt longer than the window   | trim old tool output, retry    |
+ *   | auth             | 401, 403                        | give up: fix the key           |
+ *   | bad_request      | 400, 422                        | give up                        |
+ *
+ * Backoff doubles from 1s up to 30s, with jitter so parallel agents don't
+ * retry in lockstep. A Retry-After header (seconds or a date), or
+ * retry-after-ms, replaces the computed delay. Interrupting the run (Esc,
+ * Ctrl+C) ends a wait right away instead of after it.
+ */
+
+export type ErrorKind = 'rate_limit' | 'overloaded' | 'server' | 'network' | 'not_found' | 'context_overflow' | 'auth' | 'bad_request' | 'unknown';
+
+const RETRYABLE: ErrorKind[] = ['rate_limit', 'overloaded', 'server', 'network'];
+// Worth trying another model for once retries are used up
+const FALLBACK: ErrorKind[] = [...RETRYABLE, 'not_found'];
+
+const LABELS: Record<ErrorKind, string> = {
+    rate_limit: 'rate limited',
+    overloaded: 'overloaded',
+    server: 'server error',
+    network: 'network error',
+    not_found: 'model not found',
+    context_overflow: 'context window exceeded',
+    auth: 'authentication failed',
+    bad_request: 'bad request',
+    unknown: 'error',
+};
+
+// How the APIs word "the prompt is too long"
+const CONTEXT_OVERFLOW_PATTERN = /context[_ ]length|context window|maximum context|prompt is too long|input is too long|too many (input )?tokens|reduce the length/i;
+
+export const DEFAULT_MAX_RETRIES = 5;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+// A longer Retry-After than this is treated as "not soon": fall back instead of waiting
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+export class ModelCallError extends Error {
+    constructor(
+        readonly kind: ErrorKind,
+        message: string,
+        readonly status?: number,
+        // From Retry-After / retry-after-ms, when the API sent one
+        readonly retryAfterMs?: number,
+    ) {
+        super(`${LABELS[kind]}${status ? ` (${status})` : ''}: ${message}`);
+        this.name = 'ModelCallError';
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE.includes(this.kind);
+    }
+
+    get canFallBack(): boolean {
+        return FALLBACK.includes(this.kind);
+    }
+}
+
+function headerValue(headers: unknown, name: string): string | undefined {
+    if (headers instanceof Headers) {
+        return headers.get(name) ?? undefined;
+    }
+    if (headers && typeof headers === 'object') {
+        const value = (headers as Record<string, unknown>)[name];
+        return typeof value === 'string' ? value : undefined;
+    }
+    return undefined;
+}
+
+export function parseRetryAfter(headers: unknown): number | undefined {
+    const ms = Number(headerValue(headers, 'retry-after-ms'));
+    if (ms > 0) {
+        return ms;
+    }
+    const value = headerValue(headers, 'retry-after');
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turn whatever a provider threw (OpenAI SDK error, ProviderError, fetch
+ * TypeError) into a ModelCallError.
+ */
+export function classifyError(error: unknown): ModelCallError {
+    if (error instanceof ModelCallError) {
+        return error;
+    }
+    const err = error as { status?: unknown; headers?: unknown; message?: unknown; name?: unknown; code?: unknown };
+    const status = typeof err?.status === 'number' ? err.status : undefined;
+    // The OpenAI SDK starts its messages with the status; ours already shows it
+    const message = (typeof err?.message === 'string' ? err.message : String(error)).replace(/^\d{3} /, '');
+    const retryAfterMs = parseRetryAfter(err?.headers);
+
+    let kind: ErrorKind;
+    if (CONTEXT_OVERFLOW_PATTERN.test(message) && (status === undefined || status === 400 || status === 413)) {
+        kind = 'context_overflow';
+    } else if (status === 429) {
+        kind = 'rate_limit';
+    } else if (status === 503 || status === 529) {
+        kind = 'overloaded';
+    } else if (status === 401 || status === 403) {
+        kind = 'auth';
+    } else if (status === 404) {
+        kind = 'not_found';
+    } else if (status === 400 || status === 413 || status === 422) {
+        kind = 'bad_request';
+    } else if (status !== undefined && status >= 500) {
+        kind = 'server';
+    } else if (status === undefined && /connection|network|fetch failed|socket|timed? ?out|ECONN|ETIMEDOUT|EAI_AGAIN|ENOTFOUND/i.test(`${err?.name} ${err?.code} ${message}`)) {
+        kind = 'network';
+    } else {
+        kind = 'unknown';
+    }
+    return new ModelCallError(kind, message, status, retryAfterMs);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential with jitter,
+ * or what the server asked for.
+ */
+export function backoffDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs;
+    }
+    const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+    // Equal jitter: at least half the ceiling, so retries never fire back to back
+    return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+export interface RetryOptions {
+    maxRetries?: number;
+    // Called before each wait, e.g. to print "retrying in 4s"
+    onRetry?: (error: ModelCallError, attempt: number, delayMs: number) => void;
+    // Overridable so scripts (and impatient people) can skip the waiting
+    sleep?: (ms: number) => Promise<void>;
+    // Esc / Ctrl+C: stop retrying, and stop waiting for the next attempt
+    signal?: AbortSignal;
+}
+
+/**
+ * Resolve after the sleep, or reject as soon as the signal fires.
+ */
+function sleepUnlessAborted(sleep: Promise<void>, signal: AbortSignal | undefined): Promise<void> {
+    if (!signal) {
+        return sleep;
+    }
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        sleep.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Run fn, retrying retryable failures with backoff. Anything else, or the
+ * last failure, is thrown as a ModelCallError.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const sleep = options.sleep ?? Bun.sleep;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            const failure = classifyError(error);
+            if (!failure.retryable || attempt >= maxRetries || (failure.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+                throw failure;
+            }
+            const delay = backoffDelay(attempt, failure.retryAfterMs);
+            options.onRetry?.(failure, attempt + 1, delay);
+            await sleepUnlessAborted(sleep(delay), options.signal);
+        }
+    }
+}
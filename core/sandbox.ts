@@ -0,0 +1,297 @@
+/**
+ * core/sandbox.ts
+ *
+ * Optional sandbox for the bash tool.
+ *
+ * isSafePath only guards read/write/edit. Through bash, the model can still
+ * `cat ../../etc/passwd` or `curl` anything. The sandbox closes that gap,
+ * using the strongest mechanism the machine offers:
+ *
+ *   | Mode       | Filesystem                      | Network          | How                   |
+ *   |------------|---------------------------------|------------------|-----------------------|
+ *   | bwrap      | workspace rw, system dirs ro    | own namespace    | bubblewrap            |
+ *   | unshare    | path checks on the command      | own namespace    | unshare --net         |
+ *   | restricted | path checks on the command      | command denylist | static checks only    |
+ *
+ * The path checks see the command's text, not what the shell makes of it,
+ * so they refuse $VAR, $(...), backticks and a cd out of the workspace.
+ *
+ * Every mode adds CPU, memory and wall-clock limits. Violations are thrown
+ * as SandboxViolationError, whose message is JSON the model can act on.
+ *
+ * Configured per project in .learn-claude-code/settings.json:
+ *
+ *   { "sandbox": { "enabled": true, "network": false, "memoryMb": 2048 } }
+ *
+ * SANDBOX=true / SANDBOX=false overrides "enabled".
+ */
+
+import { dirname, isAbsolute, resolve } from 'path';
+import { homedir } from 'os';
+import { ConfigError } from './config';
+import { projectSettingsPath, readProjectSettings } from './settings';
+import { clampTimeout, runProcess, type ShellResult } from './shell';
+
+export type SandboxMode = 'bwrap' | 'unshare' | 'restricted';
+
+export const SANDBOX_MODES: SandboxMode[] = ['bwrap', 'unshare', 'restricted'];
+
+export type ViolationKind = 'path' | 'network' | 'timeout' | 'memory' | 'cpu';
+
+export interface SandboxPolicy {
+    enabled: boolean;
+    // Allow network access from commands
+    network: boolean;
+    // Address space limit per command
+    memoryMb: number;
+    // CPU time limit per command
+    cpuSeconds: number;
+    // Wall-clock limit per command
+    timeoutSeconds: number;
+    // Extra paths commands may read (toolchains outside /usr, shared caches, ...)
+    readablePaths: string[];
+    // Extra paths commands may write
+    writablePaths: string[];
+    // Force a weaker mode instead of auto-detecting
+    mode?: SandboxMode;
+}
+
+export const DEFAULT_SANDBOX_POLICY: SandboxPolicy = {
+    enabled: false,
+    network: false,
+    memoryMb: 2048,
+    cpuSeconds: 60,
+    timeoutSeconds: 120,
+    readablePaths: [],
+    writablePaths: [],
+};
+
+export class SandboxViolationError extends Error {
+    readonly kind: ViolationKind;
+
+    constructor(kind: ViolationKind, detail: string, hint?: string) {
+        super(JSON.stringify({ error: 'sandbox_violation', kind, detail, ...(hint ? { hint } : {}) }));
+        this.name = 'SandboxViolationError';
+        this.kind = kind;
+    }
+}
+
+// Always readable: where binaries and shared libraries live
+const SYSTEM_READ_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/lib32', '/opt'];
+// The few /etc files programs need to run, without exposing the rest of /etc
+const SYSTEM_ETC_FILES = ['/etc/resolv.conf', '/etc/hosts', '/etc/ssl', '/etc/ca-certificates', '/etc/alternatives', '/etc/ld.so.cache', '/etc/localtime'];
+// Paths any command may touch
+const SPECIAL_PATHS = ['/dev/null', '/dev/zero', '/dev/urandom', '/dev/stdin', '/dev/stdout', '/dev/stderr', '/tmp', '/proc/self'];
+
+const NETWORK_COMMANDS = /(^|[\s;&|(`])(curl|wget|nc|ncat|netcat|ssh|scp|sftp|rsync|telnet|ftp|ping)(\s|$)|\bgit\s+(clone|fetch|pull|push)\b|\b(npm|pnpm|yarn|bun)\s+(install|add|i)\b|\bpip3?\s+install\b/;
+const NETWORK_ERRORS = /Could not resolve host|Network is unreachable|Temporary failure in name resolution|getaddrinfo|ENETUNREACH|EAI_AGAIN/i;
+const MEMORY_ERRORS = /Cannot allocate memory|out of memory|std::bad_alloc|MemoryError/i;
+
+// $VAR, ${...}, $(...) and backticks: what they expand to can't be checked before the command runs
+// ($?, $#, $$, $! and $1..$9 name no paths)
+const SHELL_EXPANSION = /`|\$(?![?#$!\d])/;
+// cd to a directory the later relative paths can't be checked against: home, the previous one, or outside
+const CHANGE_DIR = /(?:^|[\s;&|(])(?:cd|pushd)(?=$|[\s;&|)])(?:[ \t]+([^\s;&|)]+))?/g;
+
+// SIGXCPU: the kernel's answer to exceeding `ulimit -t`
+const SIGXCPU_EXIT = 128 + 24;
+
+function expandHome(path: string): string {
+    return path.startsWith('~') ? homedir() + path.slice(1) : path;
+}
+
+function isWithin(path: string, root: string): boolean {
+    return path === root || path.startsWith(root.endsWith('/') ? root : root + '/');
+}
+
+export class Sandbox {
+    readonly policy: SandboxPolicy;
+    readonly workspaceDir: string;
+    readonly mode: SandboxMode;
+
+    constructor(policy: SandboxPolicy, workspaceDir: string) {
+        this.policy = policy;
+        this.workspaceDir = resolve(workspaceDir);
+        this.mode = policy.mode ?? Sandbox.detectMode();
+    }
+
+    /**
+     * Strongest mode this machine supports.
+     */
+    static detectMode(): SandboxMode {
+        if (Bun.which('bwrap')) {
+            return 'bwrap';
+        }
+        if (Bun.which('unshare')) {
+            const probe = Bun.spawnSync(['unshare', '--user', '--map-root-user', '--net', 'true'], { stderr: 'ignore' });
+            if (probe.exitCode === 0) {
+                return 'unshare';
+            }
+        }
+        return 'restricted';
+    }
+
+    /**
+     * Run a command under the policy. The requested timeout is capped at the
+     * policy's; only a cap that cut the command short is a violation, any
+     * other timeout is reported like one outside the sandbox, with its output.
+     */
+    async run(command: string, options: { timeoutMs?: number; signal?: AbortSignal } = {}): Promise<ShellResult> {
+        const argv = this.prepare(command);
+        const limitMs = this.policy.timeoutSeconds * 1000;
+        const requestedMs = clampTimeout(options.timeoutMs, Number.POSITIVE_INFINITY);
+        const timeoutMs = Math.min(requestedMs, limitMs);
+        const result = await runProcess(argv, {
+            cwd: this.workspaceDir,
+            timeoutMs,
+            signal: options.signal,
+        });
+        const failed = result.exitCode !== 0;
+
+        if (result.timedOut && requestedMs > limitMs) {
+            throw new SandboxViolationError('timeout', `Command exceeded ${this.policy.timeoutSeconds}s`, 'Run a smaller step, or avoid long-running/interactive commands');
+        }
+        if (result.exitCode === SIGXCPU_EXIT || result.signal === 'SIGXCPU') {
+            throw new SandboxViolationError('cpu', `Command exceeded ${this.policy.cpuSeconds}s of CPU time`);
+        }
+        if (failed && MEMORY_ERRORS.test(result.stderr)) {
+            throw new SandboxViolationError('memory', `Command exceeded ${this.policy.memoryMb} MB of memory`);
+        }
+        if (failed && !result.interrupted && !this.policy.network && (NETWORK_ERRORS.test(result.stderr) || NETWORK_COMMANDS.test(command))) {
+            throw new SandboxViolationError('network', 'Network access is disabled in the sandbox', 'Work offline or ask the user to enable sandbox.network');
+        }
+        return result;
+    }
+
+    /**
+     * Check a command against the policy and return the argv that runs it
+     * sandboxed. Used directly for processes that manage their own lifetime.
+     */
+    prepare(command: string): string[] {
+        if (this.mode !== 'bwrap') {
+            this.checkPaths(command);
+        }
+        if (this.mode === 'restricted' && !this.policy.network && NETWORK_COMMANDS.test(command)) {
+            throw new SandboxViolationError('network', 'Network access is disabled in the sandbox', 'Work offline or ask the user to enable sandbox.network');
+        }
+        return this.argv(this.withLimits(command));
+    }
+
+    private withLimits(command: string): string {
+        const memoryKb = this.policy.memoryMb * 1024;
+        return `ulimit -v ${memoryKb} 2>/dev/null; ulimit -t ${this.policy.cpuSeconds} 2>/dev/null; ${command}`;
+    }
+
+    private argv(script: string): string[] {
+        if (this.mode === 'bwrap') {
+            return ['bwrap', ...this.bwrapArgs(), 'bash', '-c', script];
+        }
+        if (this.mode === 'unshare' && !this.policy.network) {
+            return ['unshare', '--user', '--map-root-user', '--net', 'bash', '-c', script];
+        }
+        return ['bash', '-c', script];
+    }
+
+    private bwrapArgs(): string[] {
+        const args = ['--die-with-parent', '--new-session', '--unshare-all'];
+        if (this.policy.network) {
+            args.push('--share-net');
+        }
+        for (const path of [...SYSTEM_READ_PATHS, ...SYSTEM_ETC_FILES, dirname(process.execPath), ...this.policy.readablePaths]) {
+            args.push('--ro-bind-try', path, path);
+        }
+        args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp');
+        for (const path of [this.workspaceDir, ...this.policy.writablePaths]) {
+            args.push('--bind-try', path, path);
+        }
+        args.push('--setenv', 'HOME', this.workspaceDir, '--chdir', this.workspaceDir);
+        return args;
+    }
+
+    /**
+     * Without a mount namespace the filesystem can't be hidden, so reject
+     * commands that name paths outside what the policy allows.
+     */
+    private checkPaths(command: string): void {
+        const allowed = [
+            this.workspaceDir,
+            ...SYSTEM_READ_PATHS,
+            ...SYSTEM_ETC_FILES,
+            ...SPECIAL_PATHS,
+            ...this.policy.readablePaths,
+            ...this.policy.writablePaths,
+        ].map(path => resolve(path));
+
+        // Outside quotes only: '$1' in an awk program is awk's
+        const unquoted = command.replace(/'[^']*'/g, "''");
+        if (SHELL_EXPANSION.test(unquoted)) {
+            throw new SandboxViolationError('path', 'Shell expansions ($VAR, $(...), backticks) can\'t be checked for paths in this sandbox mode', 'Write the paths out literally');
+        }
+        for (const [, target] of unquoted.matchAll(CHANGE_DIR)) {
+            const dir = target === undefined || target === '-' || target.startsWith('~') ? undefined : resolve(this.workspaceDir, target);
+            if (!dir || !isWithin(dir, this.workspaceDir)) {
+                throw new SandboxViolationError('path', `${target === undefined ? 'cd' : `cd ${target}`} leaves the workspace (${this.workspaceDir})`, 'Stay in the workspace and use paths relative to it');
+            }
+        }
+        for (const token of command.split(/[\s;&|<>()'"`=]+/)) {
+            if (!token || !(token.startsWith('/') || token.startsWith('~') || token.includes('..'))) {
+                continue;
+            }
+            const expanded = expandHome(token);
+            const target = isAbsolute(expanded) ? resolve(expanded) : resolve(this.workspaceDir, expanded);
+            if (!allowed.some(root => isWithin(target, root))) {
+                throw new SandboxViolationError('path', `${token} is outside the workspace (${this.workspaceDir})`, 'Only use paths inside the workspace');
+            }
+        }
+    }
+}
+
+const POLICY_CHECKS: Record<keyof SandboxPolicy, [check: (value: any) => boolean, expected: string]> = {
+    enabled: [value => typeof value === 'boolean', 'true or false'],
+    network: [value => typeof value === 'boolean', 'true or false'],
+    memoryMb: [value => Number.isInteger(value) && value > 0, 'a positive integer'],
+    cpuSeconds: [value => Number.isInteger(value) && value > 0, 'a positive integer'],
+    timeoutSeconds: [value => Number.isInteger(value) && value > 0, 'a positive integer'],
+    readablePaths: [value => Array.isArray(value) && value.every(item => typeof item === 'string'), 'an array of strings'],
+    writablePaths: [value => Array.isArray(value) && value.every(item => typeof item === 'string'), 'an array of strings'],
+    mode: [value => SANDBOX_MODES.includes(value), `one of ${SANDBOX_MODES.join(', ')}`],
+};
+
+function validatePolicy(raw: unknown, source: string): Partial<SandboxPolicy> {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new ConfigError(`${source}: sandbox must be an object`);
+    }
+    for (const [key, value] of Object.entries(raw)) {
+        const entry = POLICY_CHECKS[key as keyof SandboxPolicy];
+        if (!entry) {
+            throw new ConfigError(`${source}: unknown key sandbox.${key} (expected one of ${Object.keys(POLICY_CHECKS).join(', ')})`);
+        }
+        if (!entry[0](value)) {
+            throw new ConfigError(`${source}: sandbox.${key} must be ${entry[1]}`);
+        }
+    }
+    const mode = (raw as Partial<SandboxPolicy>).mode;
+    // The bwrap and unshare binaries are needed; without them every command would fail
+    if ((mode === 'bwrap' || mode === 'unshare') && !Bun.which(mode)) {
+        throw new ConfigError(`${source}: sandbox.mode is ${mode}, but ${mode} is not installed`);
+    }
+    return raw as Partial<SandboxPolicy>;
+}
+
+/**
+ * Build the sandbox for a workspace from its settings, or undefined when disabled.
+ */
+export async function loadSandbox(workspaceDir: string): Promise<Sandbox | undefined> {
+    const settings = await readProjectSettings(workspaceDir);
+    const configured = settings.sandbox === undefined ? {} : validatePolicy(settings.sandbox, projectSettingsPath(workspaceDir));
+    const policy: SandboxPolicy = { ...DEFAULT_SANDBOX_POLICY, ...configured };
+    policy.readablePaths = policy.readablePaths.map(expandHome);
+    policy.writablePaths = policy.writablePaths.map(expandHome);
+    if (process.env.SANDBOX) {
+        policy.enabled = !['false', '0'].includes(process.env.SANDBOX.toLowerCase());
+    }
+    if (!policy.enabled) {
+        return undefined;
+    }
+    return new Sandbox(policy, workspaceDir);
+}
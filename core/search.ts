@@ -0,0 +1,383 @@
+/**
+ * core/search.ts
+ *
+ * `glob` and `grep` without shelling out to find/grep.
+ *
+ * `find . -name "*.ts"` walks node_modules and .git, prints in whatever
+ * order the filesystem returns, and has no limit. These tools:
+ *
+ *   - skip what .gitignore files (root and nested) ignore, plus .git and node_modules
+ *   - list the most recently modified files first, the ones likely being worked on
+ *   - cap their output and say when they did
+ *   - never leave the workspace: a search path that resolves outside it is refused,
+ *     symlinks pointing outside are skipped and linked directories are not followed
+ *
+ *   glob "*.ts" path=src                -> src/agent.ts, src/tools.ts, ...
+ *   grep "TODO|FIXME" type=ts context=1 -> src/agent.ts:42:    // TODO: retry
+ */
+
+import { readdir, realpath, stat } from 'fs/promises';
+import { join, relative } from 'path';
+import { isSafePath, safePath } from './builtin_tools';
+import { detectFileKind } from './file_types';
+import type { Tool, ToolContext } from './tools';
+
+// Results returned when the model doesn't ask for a limit, and the most it can ask for
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+// Stop walking after this many files, however large the tree
+const MAX_WALK_FILES = 50_000;
+// Larger files are not searched
+const MAX_GREP_FILE_BYTES = 1024 * 1024;
+// Matched lines are cut to this length
+const MAX_LINE_CHARS = 300;
+
+// Ignored even without a .gitignore; a negated pattern ("!node_modules/") brings them back
+const DEFAULT_IGNORES = ['.git/', 'node_modules/'];
+
+// grep `type` filter -> extensions
+const FILE_TYPES: Record<string, string[]> = {
+    ts: ['ts', 'tsx', 'mts', 'cts'],
+    js: ['js', 'jsx', 'mjs', 'cjs'],
+    py: ['py', 'pyi'],
+    go: ['go'],
+    rust: ['rs'],
+    java: ['java'],
+    c: ['c', 'h'],
+    cpp: ['cpp', 'cc', 'cxx', 'hpp', 'hh', 'h'],
+    md: ['md', 'mdx'],
+    json: ['json', 'jsonc'],
+    yaml: ['yml', 'yaml'],
+    css: ['css', 'scss', 'less'],
+    html: ['html', 'htm'],
+    sh: ['sh', 'bash', 'zsh'],
+};
+
+interface IgnoreRule {
+    // Directory of the .gitignore, relative to the workspace ('' for the root)
+    base: string;
+    glob: Bun.Glob;
+    negate: boolean;
+    dirOnly: boolean;
+}
+
+function parseIgnoreFile(text: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const raw of text.split('\n')) {
+        let pattern = raw.trimEnd();
+        if (!pattern || pattern.startsWith('#')) {
+            continue;
+        }
+        const negate = pattern.startsWith('!');
+        if (negate) {
+            pattern = pattern.slice(1);
+        }
+        const dirOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+        if (!pattern) {
+            continue;
+        }
+        rules.push({ base, glob: new Bun.Glob(anchored ? pattern : `**/${pattern}`), negate, dirOnly });
+    }
+    return rules;
+}
+
+/**
+ * Whether a workspace-relative path is ignored; the last matching rule wins.
+ */
+function isIgnored(rules: IgnoreRule[], path: string, isDir: boolean): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDir) {
+            continue;
+        }
+        const rel = rule.base ? relative(rule.base, path) : path;
+        if (rel.startsWith('..') || !rule.glob.match(rel)) {
+            continue;
+        }
+        ignored = !rule.negate;
+    }
+    return ignored;
+}
+
+interface WalkedFile {
+    // Relative to the workspace
+    path: string;
+    absolute: string;
+    mtimeMs: number;
+    size: number;
+}
+
+interface WalkResult {
+    files: WalkedFile[];
+    // Stopped at MAX_WALK_FILES
+    truncated: boolean;
+}
+
+/**
+ * Every non-ignored file under `root`, newest first.
+ */
+async function walkFiles(root: string, context: ToolContext): Promise<WalkResult> {
+    const workspace = await realpath(context.workspaceDir);
+    // path=link where link -> /etc: the lexical check in safePath doesn't see it
+    if (!isSafePath(workspace, await realpath(root))) {
+        throw new Error(`Unsafe path: ${relative(context.workspaceDir, root)} resolves outside the workspace`);
+    }
+    const files: WalkedFile[] = [];
+    let truncated = false;
+
+    // Rules from .gitignore files above the search root still apply inside it
+    let rules = parseIgnoreFile(DEFAULT_IGNORES.join('\n'), '');
+    const ancestors = relative(context.workspaceDir, root).split('/').filter(Boolean);
+    for (let i = 0; i < ancestors.length; i++) {
+        const dir = ancestors.slice(0, i).join('/');
+        rules = rules.concat(await readIgnoreFile(context.workspaceDir, dir));
+    }
+
+    const visit = async (dir: string, inherited: IgnoreRule[]): Promise<void> => {
+        const relDir = relative(context.workspaceDir, dir);
+        const dirRules = inherited.concat(await readIgnoreFile(context.workspaceDir, relDir));
+        let entries;
+        try {
+            entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+            // Unreadable directory: skip it like find does
+            return;
+        }
+        for (const entry of entries) {
+            if (truncated) {
+                return;
+            }
+            const absolute = join(dir, entry.name);
+            const path = relative(context.workspaceDir, absolute);
+            const isDir = entry.isDirectory();
+            if (entry.isSymbolicLink()) {
+                const target = await realpath(absolute).catch(() => undefined);
+                if (!target || !isSafePath(workspace, target)) {
+                    continue;
+                }
+                // Linked directories are not followed, so a link can't loop back
+                const info = await stat(target).catch(() => undefined);
+                if (!info?.isFile()) {
+                    continue;
+                }
+            }
+            if (isIgnored(dirRules, path, isDir)) {
+                continue;
+            }
+            if (isDir) {
+                await visit(absolute, dirRules);
+            } else if (entry.isFile() || entry.isSymbolicLink()) {
+                const info = await stat(absolute);
+                files.push({ path, absolute, mtimeMs: info.mtimeMs, size: info.size });
+                truncated = files.length >= MAX_WALK_FILES;
+            }
+        }
+    };
+
+    const info = await stat(root);
+    if (info.isDirectory()) {
+        await visit(root, rules);
+    } else {
+        files.push({ path: relative(context.workspaceDir, root), absolute: root, mtimeMs: info.mtimeMs, size: info.size });
+    }
+    files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    return { files, truncated };
+}
+
+async function readIgnoreFile(workspaceDir: string, relDir: string): Promise<IgnoreRule[]> {
+    const file = Bun.file(join(workspaceDir, relDir, '.gitignore'));
+    return await file.exists() ? parseIgnoreFile(await file.text(), relDir) : [];
+}
+
+function clampLimit(limit: number | undefined): number {
+    return Math.min(MAX_LIMIT, Math.max(1, Math.floor(limit ?? DEFAULT_LIMIT)));
+}
+
+function typeFilter(type: string | undefined): ((path: string) => boolean) | undefined {
+    if (!type) {
+        return undefined;
+    }
+    const extensions = FILE_TYPES[type] ?? [type.replace(/^\./, '')];
+    return path => extensions.some(ext => path.endsWith(`.${ext}`));
+}
+
+function truncateLine(line: string): string {
+    return line.length > MAX_LINE_CHARS ? line.slice(0, MAX_LINE_CHARS) + ' ...' : line;
+}
+
+export const globTool: Tool<{ pattern: string; path?: string; limit?: number }> = {
+    name: 'glob',
+    description: 'Find files by glob pattern ("**/*.ts", "src/**/test_*.py"), most recently modified first. ' +
+        'Skips .gitignore\'d files, .git and node_modules. Use this instead of bash find.',
+    parameters: {
+        type: 'object',
+        properties: {
+            pattern: { type: 'string', description: 'Glob pattern, relative to path' },
+            path: { type: 'string', description: 'Directory to search in (optional, default: workspace root)' },
+            limit: { type: 'number', description: `Maximum number of files (optional, default ${DEFAULT_LIMIT})` },
+        },
+        required: ['pattern'],
+    },
+    readOnly: true,
+    async handler({ pattern, path, limit }, context) {
+        const root = safePath(context, path ?? '.');
+        const glob = new Bun.Glob(pattern);
+        const { files, truncated } = await walkFiles(root, context);
+        const matched = files.filter(file => glob.match(relative(root, file.absolute)));
+        if (matched.length === 0) {
+            return `No files match ${pattern}`;
+        }
+        const max = clampLimit(limit);
+        const lines = matched.slice(0, max).map(file => file.path);
+        if (matched.length > max) {
+            lines.push(`\n... (${matched.length - max} more; narrow the pattern or raise limit)`);
+        }
+        if (truncated) {
+            lines.push(`\n(stopped after ${MAX_WALK_FILES} files; search a subdirectory for complete results)`);
+        }
+        return lines.join('\n');
+    },
+};
+
+export const grepTool: Tool<{
+    pattern: string;
+    path?: string;
+    glob?: string;
+    type?: string;
+    ignore_case?: boolean;
+    context?: number;
+    output_mode?: 'content' | 'files_with_matches' | 'count';
+    limit?: number;
+}> = {
+    name: 'grep',
+    description: 'Search file contents with a regular expression (JavaScript syntax). ' +
+        'Output is "path:line:text" (context lines use "-"), most recently modified files first. ' +
+        'Skips .gitignore\'d files, binaries and .git/node_modules. Use this instead of bash grep.',
+    parameters: {
+        type: 'object',
+        properties: {
+            pattern: { type: 'string', description: 'Regular expression to search for' },
+            path: { type: 'string', description: 'File or directory to search (optional, default: workspace root)' },
+            glob: { type: 'string', description: 'Only search files matching this glob, e.g. "*.ts" or "src/**" (optional)' },
+            type: { type: 'string', description: `Only search this file type: ${Object.keys(FILE_TYPES).join(', ')}, or any extension (optional)` },
+            ignore_case: { type: 'boolean', description: 'Case-insensitive search (optional)' },
+            context: { type: 'number', description: 'Lines of context before and after each match (optional)' },
+            output_mode: {
+                type: 'string',
+                enum: ['content', 'files_with_matches', 'count'],
+                description: 'content: matching lines (default); files_with_matches: paths only; count: matches per file',
+            },
+            limit: { type: 'number', description: `Maximum number of output lines or files (optional, default ${DEFAULT_LIMIT})` },
+        },
+        required: ['pattern'],
+    },
+    readOnly: true,
+    async handler({ pattern, path, glob, type, ignore_case, context: contextLines, output_mode, limit }, context) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(pattern, ignore_case ? 'i' : '');
+        } catch (error: any) {
+            throw new Error(`Invalid regex: ${error.message}`);
+        }
+        const root = safePath(context, path ?? '.');
+        const fileGlob = glob ? new Bun.Glob(glob) : undefined;
+        // "*.ts" should match at any depth, as in rg --glob
+        const matchesGlob = (file: WalkedFile) => !fileGlob || fileGlob.match(relative(root, file.absolute)) || (!glob!.includes('/') && fileGlob.match(file.path.split('/').pop()!));
+        const matchesType = typeFilter(type);
+        const around = Math.max(0, Math.floor(contextLines ?? 0));
+        const mode = output_mode ?? 'content';
+        const max = clampLimit(limit);
+
+        const { files, truncated } = await walkFiles(root, context);
+        const output: string[] = [];
+        let skipped = 0;
+        let capped = false;
+
+        for (const file of files) {
+            if (!matchesGlob(file) || (matchesType && !matchesType(file.path))) {
+                continue;
+            }
+            if (file.size > MAX_GREP_FILE_BYTES) {
+                skipped++;
+                continue;
+            }
+            const data = await Bun.file(file.absolute).bytes();
+            if (detectFileKind(data).kind !== 'text') {
+                continue;
+            }
+            const lines = new TextDecoder().decode(data).split('\n');
+            if (lines[lines.length - 1] === '') {
+                lines.pop();
+            }
+            const hits = lines.flatMap((line, i) => regex.test(line) ? [i] : []);
+            if (hits.length === 0) {
+                continue;
+            }
+
+            if (mode === 'files_with_matches' || mode === 'count') {
+                if (output.length >= max) {
+                    capped = true;
+                    break;
+                }
+                output.push(mode === 'count' ? `${file.path}:${hits.length}` : file.path);
+                continue;
+            }
+
+            // Matches plus context, with "--" between groups that don't touch
+            const shown = new Set<number>();
+            for (const hit of hits) {
+                for (let i = Math.max(0, hit - around); i <= Math.min(lines.length - 1, hit + around); i++) {
+                    shown.add(i);
+                }
+            }
+            const hitSet = new Set(hits);
+            let previous = -2;
+            for (const i of [...shown].sort((a, b) => a - b)) {
+                if (output.length >= max) {
+                    capped = true;
+                    break;
+                }
+                if (around > 0 && previous !== -2 && i !== previous + 1) {
+                    output.push('--');
+                }
+                const separator = hitSet.has(i) ? ':' : '-';
+                output.push(`${file.path}${separator}${i + 1}${separator}${truncateLine(lines[i]!)}`);
+                previous = i;
+            }
+            if (capped) {
+                break;
+            }
+            if (around > 0) {
+                output.push('--');
+            }
+        }
+
+        if (output[output.length - 1] === '--') {
+            output.pop();
+        }
+        if (output.length === 0) {
+            return `No matches for ${pattern}`;
+        }
+        if (capped) {
+            output.push(`\n... (stopped at ${max} results; narrow the search or raise limit)`);
+        }
+        if (skipped > 0) {
+            output.push(`(${skipped} files over ${MAX_GREP_FILE_BYTES / 1024 / 1024} MB not searched)`);
+        }
+        if (truncated) {
+            output.push(`(stopped after ${MAX_WALK_FILES} files; search a subdirectory for complete results)`);
+        }
+        return output.join('\n');
+    },
+};
+
+/**
+ * glob and grep, the built-in replacements for bash find/grep.
+ */
+export function searchTools(): Tool<any>[] {
+    return [globTool, grepTool];
+}
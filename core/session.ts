@@ -0,0 +1,265 @@
+/**
+ * core/session.ts
+ *
+ * Session files for the REPL.
+ *
+ * A session is everything needed to pick a conversation back up:
+ * the message history, the todo list, the model, the workspace and
+ * timestamps. It is rewritten to <SESSION_DIR>/<id>.json every time the
+ * history changes, so Ctrl+C or a crash loses at most the request in flight.
+ *
+ * A process can die between "assistant asked for 3 tools" and "3 tool
+ * results were recorded". The API rejects such a history, so loading a
+ * session repairs it: missing results get a synthetic error result and
+ * orphaned results are dropped.
+ */
+
+import { homedir } from 'os';
+import { join } from 'path';
+import { mkdir, readdir, rename } from 'fs/promises';
+import type { ChatCompletionMessageParam } from 'openai/resources';
+import type { UsageRecord } from './usage';
+
+// Loose shape of a v2 todo item; v1 sessions simply have none
+export interface SessionTodo {
+    // Missing in sessions saved before todos had ids; assigned on load
+    id?: string;
+    content: string;
+    status: string;
+    activeForm: string;
+    parentId?: string;
+    blockedBy?: string[];
+}
+
+export interface SessionData {
+    id: string;
+    model: string;
+    workspaceDir: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: ChatCompletionMessageParam[];
+    todos: SessionTodo[];
+    // Missing in sessions saved before usage was tracked
+    usage?: UsageRecord[];
+}
+
+export interface SessionSummary {
+    id: string;
+    model: string;
+    workspaceDir: string;
+    createdAt: string;
+    updatedAt: string;
+    messageCount: number;
+    // Latest user prompt, to tell sessions apart in /sessions
+    title: string;
+}
+
+export const INTERRUPTED_TOOL_RESULT = 'Error: tool call was interrupted before a result was recorded';
+
+export function defaultSessionDir(): string {
+    return process.env.SESSION_DIR || join(homedir(), '.learn-claude-code', 'sessions');
+}
+
+// What newSessionId() makes, e.g. 20261019-154809-0a47148c; nothing else names a session file
+const SESSION_ID = /^\d{8}-\d{6}-[0-9a-f]{8}$/;
+
+function newSessionId(): string {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+    return `${stamp}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Make a history valid for the chat completions API again:
+ * every assistant tool_call is followed by exactly one tool message with
+ * its id, and no tool message appears without a matching call.
+ */
+export function repairToolPairs(messages: ChatCompletionMessageParam[]): ChatCompletionMessageParam[] {
+    const repaired: ChatCompletionMessageParam[] = [];
+    let index = 0;
+    while (index < messages.length) {
+        const message = messages[index]!;
+        index++;
+
+        if (message.role === 'tool') {
+            // Orphan: its assistant message was handled (or lost) already
+            continue;
+        }
+        repaired.push(message);
+        if (message.role !== 'assistant' || !message.tool_calls?.length) {
+            continue;
+        }
+
+        // Collect the tool results that directly follow this assistant message
+        const results = new Map<string, ChatCompletionMessageParam>();
+        while (index < messages.length && messages[index]!.role === 'tool') {
+            const result = messages[index] as Extract<ChatCompletionMessageParam, { role: 'tool' }>;
+            if (!results.has(result.tool_call_id)) {
+                results.set(result.tool_call_id, result);
+            }
+            index++;
+        }
+        for (const toolCall of message.tool_calls) {
+            repaired.push(results.get(toolCall.id) ?? {
+                role: 'tool',
+                content: INTERRUPTED_TOOL_RESULT,
+                tool_call_id: toolCall.id,
+            });
+        }
+    }
+    return repaired;
+}
+
+export class Session {
+    readonly id: string;
+    readonly dir: string;
+    // Updated when /model switches mid-session
+    model: string;
+    readonly workspaceDir: string;
+    readonly createdAt: string;
+    updatedAt: string;
+    // The live history; agent() mutates this array in place
+    messages: ChatCompletionMessageParam[];
+    todos: SessionTodo[];
+    usage: UsageRecord[];
+
+    private constructor(data: SessionData, dir: string) {
+        this.id = data.id;
+        this.dir = dir;
+        this.model = data.model;
+        this.workspaceDir = data.workspaceDir;
+        this.createdAt = data.createdAt;
+        this.updatedAt = data.updatedAt;
+        this.messages = data.messages;
+        this.todos = data.todos;
+        this.usage = data.usage ?? [];
+    }
+
+    get file(): string {
+        return join(this.dir, `${this.id}.json`);
+    }
+
+    static create(options: { model: string; workspaceDir: string; messages: ChatCompletionMessageParam[]; dir?: string }): Session {
+        const now = new Date().toISOString();
+        return new Session({
+            id: newSessionId(),
+            model: options.model,
+            workspaceDir: options.workspaceDir,
+            createdAt: now,
+            updatedAt: now,
+            messages: options.messages,
+            todos: [],
+        }, options.dir ?? defaultSessionDir());
+    }
+
+    static async load(id: string, dir: string = defaultSessionDir()): Promise<Session> {
+        // --resume ../../x must not read (and later overwrite) a file outside the session directory
+        if (!SESSION_ID.test(id)) {
+            throw new Error(`Invalid session id: ${id} (expected one like 20261019-154809-0a47148c, see /sessions)`);
+        }
+        const file = Bun.file(join(dir, `${id}.json`));
+        if (!(await file.exists())) {
+            throw new Error(`Session not found: ${id}`);
+        }
+        const data = await file.json() as SessionData;
+        data.messages = repairToolPairs(data.messages ?? []);
+        data.todos = data.todos ?? [];
+        return new Session(data, dir);
+    }
+
+    /**
+     * Most recently updated session for a workspace, if any.
+     */
+    static async latest(workspaceDir: string, dir: string = defaultSessionDir()): Promise<Session | undefined> {
+        const [newest] = (await Session.list(dir)).filter(s => s.workspaceDir === workspaceDir);
+        return newest ? Session.load(newest.id, dir) : undefined;
+    }
+
+    /**
+     * All sessions in the directory, newest first.
+     */
+    static async list(dir: string = defaultSessionDir()): Promise<SessionSummary[]> {
+        let entries: string[];
+        try {
+            entries = await readdir(dir);
+        } catch {
+            return [];
+        }
+        const summaries: SessionSummary[] = [];
+        for (const entry of entries.filter(e => e.endsWith('.json'))) {
+            try {
+                const data = await Bun.file(join(dir, entry)).json() as SessionData;
+                // An id load() would refuse (a hand-edited file) isn't offered for /resume or --continue
+                if (!SESSION_ID.test(data.id)) {
+                    continue;
+                }
+                const lastPrompt = data.messages.findLast(m => m.role === 'user' && typeof m.content === 'string');
+                summaries.push({
+                    id: data.id,
+                    model: data.model,
+                    workspaceDir: data.workspaceDir,
+                    createdAt: data.createdAt,
+                    updatedAt: data.updatedAt,
+                    messageCount: data.messages.length,
+                    title: typeof lastPrompt?.content === 'string' ? lastPrompt.content.split('\n')[0]!.slice(0, 60) : '',
+                });
+            } catch {
+                // Skip unreadable or half-written files
+            }
+        }
+        return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * Write the session to disk. Writes go to a temp file first and are
+     * renamed into place, so an interrupted save never corrupts the session.
+     */
+    async save(): Promise<void> {
+        this.updatedAt = new Date().toISOString();
+        const data: SessionData = {
+            id: this.id,
+            model: this.model,
+            workspaceDir: this.workspaceDir,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+            messages: this.messages,
+            todos: this.todos,
+            usage: this.usage,
+        };
+        await mkdir(this.dir, { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        await Bun.write(tmp, JSON.stringify(data, null, 2));
+        await rename(tmp, this.file);
+    }
+}
+
+/**
+ * Open the session a CLI run asked for: a specific id (--resume), the
+ * latest one for this workspace (--continue), or a fresh one.
+ */
+export async function openSession(options: {
+    resume?: string;
+    continueLatest?: boolean;
+    model: string;
+    workspaceDir: string;
+    messages: ChatCompletionMessageParam[];
+}): Promise<{ session: Session; resumed: boolean }> {
+    if (options.resume) {
+        return { session: await Session.load(options.resume), resumed: true };
+    }
+    if (options.continueLatest) {
+        const latest = await Session.latest(options.workspaceDir);
+        if (latest) {
+            return { session: latest, resumed: true };
+        }
+    }
+    return { session: Session.create(options), resumed: false };
+}
+
+export function renderSessionList(sessions: SessionSummary[]): string {
+    if (sessions.length === 0) {
+        return 'No saved sessions';
+    }
+    return sessions
+        .map(s => `${s.id}  ${s.updatedAt.slice(0, 16).replace('T', ' ')}  ${String(s.messageCount).padStart(4)} msgs  ${s.title}`)
+        .join('\n');
+}
@@ -0,0 +1,50 @@
+/**
+ * core/settings.ts
+ *
+ * Per-project settings, read from <workspace>/.learn-claude-code/settings.json.
+ *
+ *   {
+ *     "sandbox": { "enabled": true, "network": false }
+ *   }
+ *
+ * Each feature reads its own key and validates it.
+ */
+
+import { join } from 'path';
+import { homedir } from 'os';
+
+export const PROJECT_SETTINGS_DIR = '.learn-claude-code';
+
+/**
+ * A settings file, flag or template the user has to fix; the CLI prints the
+ * message and exits with status 1 instead of a stack trace.
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * ~/.learn-claude-code: user-wide files (sessions, instructions, ...).
+ */
+export function userConfigDir(): string {
+    return join(homedir(), PROJECT_SETTINGS_DIR);
+}
+
+export function projectSettingsPath(workspaceDir: string): string {
+    return join(workspaceDir, PROJECT_SETTINGS_DIR, 'settings.json');
+}
+
+export async function readProjectSettings(workspaceDir: string): Promise<Record<string, any>> {
+    const file = Bun.file(projectSettingsPath(workspaceDir));
+    if (!(await file.exists())) {
+        return {};
+    }
+    try {
+        return await file.json();
+    } catch (error: any) {
+        throw new ConfigError(`Invalid ${projectSettingsPath(workspaceDir)}: ${error.message}`);
+    }
+}
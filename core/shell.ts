@@ -0,0 +1,200 @@
+/**
+ * core/shell.ts
+ *
+ * Running a shell command without letting it take the agent down with it.
+ *
+ *   - Timeout: `bun dev` or `tail -f` never exit on their own. After the
+ *     timeout the whole process group is killed and the partial output returned.
+ *   - Output cap: stdout and stderr each keep their first and last bytes,
+ *     with a marker saying how much was dropped in between. Memory stays
+ *     bounded even if a command prints gigabytes.
+ *   - Cancellation: an AbortSignal (wired to Ctrl+C and Esc by the agent) kills the
+ *     command and leaves the REPL running.
+ *
+ * The result keeps exit code, stdout and stderr apart, so the model sees
+ * warnings on stderr even when stdout has content.
+ */
+
+export const DEFAULT_TIMEOUT_MS = 120_000;
+export const MAX_TIMEOUT_MS = 600_000;
+// Per stream: this many bytes from the start plus this many from the end
+const KEEP_HEAD_BYTES = 16 * 1024;
+const KEEP_TAIL_BYTES = 16 * 1024;
+// Grace period between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 2_000;
+
+export interface ShellOptions {
+    cwd: string;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    // Written to stdin (hooks get their JSON payload this way); otherwise stdin is closed
+    input?: string;
+}
+
+export interface ShellResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    // Signal that ended the process, if any
+    signal: string | null;
+    timedOut: boolean;
+    interrupted: boolean;
+    durationMs: number;
+}
+
+/**
+ * Collects a stream, keeping only the head and tail once it grows past the cap.
+ */
+class CappedBuffer {
+    private head: Uint8Array[] = [];
+    private headSize = 0;
+    private tail: Uint8Array[] = [];
+    private tailSize = 0;
+    private total = 0;
+
+    push(chunk: Uint8Array): void {
+        this.total += chunk.byteLength;
+        if (this.headSize < KEEP_HEAD_BYTES) {
+            const take = Math.min(chunk.byteLength, KEEP_HEAD_BYTES - this.headSize);
+            this.head.push(chunk.subarray(0, take));
+            this.headSize += take;
+            chunk = chunk.subarray(take);
+        }
+        if (chunk.byteLength === 0) {
+            return;
+        }
+        this.tail.push(chunk);
+        this.tailSize += chunk.byteLength;
+        // Drop whole chunks from the front while the rest still covers the tail
+        while (this.tail.length > 1 && this.tailSize - this.tail[0]!.byteLength >= KEEP_TAIL_BYTES) {
+            this.tailSize -= this.tail.shift()!.byteLength;
+        }
+    }
+
+    toString(): string {
+        const decoder = new TextDecoder();
+        const head = decoder.decode(Buffer.concat(this.head));
+        let tail = Buffer.concat(this.tail);
+        if (tail.byteLength > KEEP_TAIL_BYTES) {
+            tail = tail.subarray(tail.byteLength - KEEP_TAIL_BYTES);
+        }
+        const dropped = this.total - this.headSize - tail.byteLength;
+        if (dropped <= 0) {
+            return head + decoder.decode(tail);
+        }
+        return `${head}\n\n... [${dropped} bytes truncated, ${this.total} bytes total] ...\n\n${decoder.decode(tail)}`;
+    }
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<string> {
+    const buffer = new CappedBuffer();
+    for await (const chunk of stream) {
+        buffer.push(chunk);
+    }
+    return buffer.toString();
+}
+
+export function clampTimeout(timeoutMs: number | undefined, maxMs: number = MAX_TIMEOUT_MS): number {
+    if (timeoutMs === undefined || !Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+        return Math.min(DEFAULT_TIMEOUT_MS, maxMs);
+    }
+    return Math.min(timeoutMs, maxMs);
+}
+
+/**
+ * Run argv (usually ["bash", "-c", command]) in its own process group.
+ */
+export async function runProcess(argv: string[], options: ShellOptions): Promise<ShellResult> {
+    const timeoutMs = clampTimeout(options.timeoutMs);
+    const started = Date.now();
+    const proc = Bun.spawn(argv, {
+        cwd: options.cwd,
+        stdin: options.input !== undefined ? new Blob([options.input]) : 'ignore',
+        stdout: 'pipe',
+        stderr: 'pipe',
+        // New process group, so killing it also kills whatever the command started
+        detached: true,
+    });
+
+    let timedOut = false;
+    let interrupted = false;
+    const kill = () => {
+        try {
+            process.kill(-proc.pid, 'SIGTERM');
+        } catch {
+            // Already gone
+        }
+        setTimeout(() => {
+            try {
+                process.kill(-proc.pid, 'SIGKILL');
+            } catch {
+                // Already gone
+            }
+        }, KILL_GRACE_MS).unref();
+    };
+    const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+    }, timeoutMs);
+    const onAbort = () => {
+        interrupted = true;
+        kill();
+    };
+    if (options.signal?.aborted) {
+        onAbort();
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+        const [stdout, stderr, exitCode] = await Promise.all([
+            collect(proc.stdout),
+            collect(proc.stderr),
+            proc.exited,
+        ]);
+        return {
+            stdout,
+            stderr,
+            exitCode: proc.signalCode ? null : exitCode,
+            signal: proc.signalCode === null ? null : String(proc.signalCode),
+            timedOut,
+            interrupted,
+            durationMs: Date.now() - started,
+        };
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+export async function runShell(command: string, options: ShellOptions): Promise<ShellResult> {
+    return runProcess(['bash', '-c', command], options);
+}
+
+/**
+ * Render a result for the model:
+ *
+ *   exit code: 1
+ *   stdout:
+ *   ...
+ *   stderr:
+ *   ...
+ */
+export function formatShellResult(result: ShellResult): string {
+    const lines: string[] = [];
+    if (result.timedOut) {
+        lines.push(`timed out after ${Math.round(result.durationMs / 1000)}s; process killed (output so far below)`);
+    } else if (result.interrupted) {
+        lines.push('interrupted by user (Ctrl+C or Esc); process killed (output so far below)');
+    }
+    lines.push(result.exitCode !== null ? `exit code: ${result.exitCode}` : `killed by signal: ${result.signal}`);
+    if (result.stdout) {
+        lines.push(`stdout:\n${result.stdout.trimEnd()}`);
+    }
+    if (result.stderr) {
+        lines.push(`stderr:\n${result.stderr.trimEnd()}`);
+    }
+    if (!result.stdout && !result.stderr) {
+        lines.push('(no output)');
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,78 @@
+/**
+ * core/status_line.ts
+ *
+ * One line pinned to the bottom of the terminal while everything else
+ * scrolls above it. v2 shows the in_progress todo there:
+ *
+ *   🔧 bash({"command":"bun test"})
+ *     exit code: 0
+ *   ...
+ *   ▶ Adding unit tests (2/5 done)          <- stays put
+ *
+ * It works with a scroll region (DECSTBM): rows 1..n-1 scroll, row n is
+ * ours. Nothing is drawn unless stdout is a terminal; clear() hands the
+ * whole screen back, and must run before the process exits.
+ */
+
+const SAVE_CURSOR = '\x1b7';
+const RESTORE_CURSOR = '\x1b8';
+const CLEAR_LINE = '\x1b[2K';
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+export class StatusLine {
+    private text = '';
+    // Rows of the terminal when the region was set; 0 when none is
+    private reservedRows = 0;
+    private onResize = () => this.redraw();
+
+    constructor(private out: NodeJS.WriteStream = process.stdout) {}
+
+    get enabled(): boolean {
+        return Boolean(this.out.isTTY) && (this.out.rows ?? 0) > 2;
+    }
+
+    /**
+     * Show text on the pinned line; '' removes the line.
+     */
+    set(text: string): void {
+        this.text = text;
+        if (!text) {
+            this.clear();
+            return;
+        }
+        if (!this.enabled) {
+            return;
+        }
+        if (this.reservedRows === 0) {
+            // Make sure the cursor isn't on the last row, which is about to leave the scrolling area
+            this.out.write('\n\x1b[1A');
+            this.out.on('resize', this.onResize);
+        }
+        this.redraw();
+    }
+
+    /**
+     * Draw again, e.g. after something cleared the screen below the cursor.
+     */
+    redraw(): void {
+        if (!this.text || !this.enabled) {
+            return;
+        }
+        const rows = this.out.rows;
+        const line = `▶ ${this.text}`.slice(0, Math.max(0, (this.out.columns ?? 80) - 1));
+        // Setting the region moves the cursor home; saving and restoring keeps it where the output is
+        this.out.write(`${SAVE_CURSOR}\x1b[1;${rows - 1}r${RESTORE_CURSOR}`);
+        this.out.write(`${SAVE_CURSOR}\x1b[${rows};1H${CLEAR_LINE}${DIM}${line}${RESET}${RESTORE_CURSOR}`);
+        this.reservedRows = rows;
+    }
+
+    clear(): void {
+        if (this.reservedRows === 0) {
+            return;
+        }
+        this.out.off('resize', this.onResize);
+        this.out.write(`${SAVE_CURSOR}\x1b[r\x1b[${this.out.rows ?? this.reservedRows};1H${CLEAR_LINE}${RESTORE_CURSOR}`);
+        this.reservedRows = 0;
+    }
+}
@@ -0,0 +1,259 @@
+/**
+ * core/stream.ts
+ *
+ * One OpenAI Chat Completions call, streamed or not, plus the pieces every
+ * provider shares when streaming: the live printer and line / SSE readers.
+ *
+ * Streaming prints assistant text token by token and rebuilds tool_calls
+ * from the deltas:
+ *
+ *   chunk 1: tool_calls[0] = { id: "call_1", function: { name: "bash", arguments: "" } }
+ *   chunk 2: tool_calls[0] = { function: { arguments: "{\"comm" } }
+ *   chunk 3: tool_calls[0] = { function: { arguments: "and\": \"ls\"}" } }
+ *
+ * Deltas for one call share an index; only the first carries id and name.
+ * The result has the same shape as a non-streamed response, so the agent
+ * loop and its finish_reason handling don't care which path was taken.
+ *
+ * When a stream breaks off and the call is retried, the retry's text is
+ * printed only past what the broken stream already showed (if it starts the
+ * same way), so the user doesn't read the same sentence twice.
+ *
+ * Set STREAM=false for OpenAI-compatible backends that don't stream.
+ */
+
+import type OpenAI from 'openai';
+import type {
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessage,
+    ChatCompletionMessageFunctionToolCall,
+} from 'openai/resources';
+import type { CompletionUsage } from 'openai/resources/completions';
+import { progressStream } from './output';
+import { normalizeStopReason, type CompletionResult } from './provider';
+import type { TokenUsage } from './usage';
+
+export function streamingEnabled(): boolean {
+    const value = (process.env.STREAM ?? '').toLowerCase();
+    return value !== 'false' && value !== '0';
+}
+
+/**
+ * Prints a streamed response as it arrives: text token by token, and a live
+ * "generating <tool>" line while tool arguments stream in. Large write/edit
+ * calls can take a while to generate; this shows they're moving.
+ *
+ * One printer can serve several attempts at the same call; end() closes each.
+ */
+export class StreamPrinter {
+    private printedText = false;
+    private showingProgress = false;
+    // Text of the current attempt, and what earlier attempts left on screen
+    private received = '';
+    private shown = '';
+
+    // stdout, or stderr when stdout carries JSON (see output.ts)
+    private out = progressStream();
+
+    text(delta: string): void {
+        if (!delta) {
+            return;
+        }
+        this.received += delta;
+        // A retry repeating what a broken stream showed: nothing new yet
+        if (this.shown.startsWith(this.received)) {
+            return;
+        }
+        if (this.shown) {
+            // Continue where the broken stream stopped, or start over if the retry says something else
+            delta = this.received.startsWith(this.shown) ? `…${this.received.slice(this.shown.length)}` : this.received;
+            this.shown = '';
+        }
+        if (!this.printedText) {
+            this.out.write('\n');
+            this.printedText = true;
+        }
+        this.out.write(delta);
+    }
+
+    toolProgress(name: string, argumentsLength: number): void {
+        if (!this.out.isTTY) {
+            return;
+        }
+        const amount = argumentsLength >= 1024 ? `${(argumentsLength / 1024).toFixed(1)} KB` : `${argumentsLength} B`;
+        this.out.write(`\r\x1b[K⏳ ${name || 'tool'}: ${amount} of arguments`);
+        this.showingProgress = true;
+    }
+
+    end(): void {
+        if (this.printedText) {
+            this.out.write('\n');
+        }
+        if (this.showingProgress) {
+            this.out.write('\r\x1b[K');
+        }
+        if (!this.shown.startsWith(this.received)) {
+            this.shown = this.received;
+        }
+        this.received = '';
+        this.printedText = false;
+        this.showingProgress = false;
+    }
+}
+
+/**
+ * The lines of a response body, for newline-delimited JSON (Ollama).
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let newline;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            yield buffer.slice(0, newline).replace(/\r$/, '');
+            buffer = buffer.slice(newline + 1);
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+        yield buffer;
+    }
+}
+
+/**
+ * Server-sent events (Anthropic): "event: x" and "data: {...}" lines,
+ * one event per blank-line-separated block.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+    let event = '';
+    let data: string[] = [];
+    for await (const line of readLines(body)) {
+        if (line === '') {
+            if (data.length > 0) {
+                yield { event, data: data.join('\n') };
+            }
+            event = '';
+            data = [];
+        } else if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).trimStart());
+        }
+    }
+    if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+    }
+}
+
+function tokenUsage(usage: CompletionUsage | null | undefined): TokenUsage | undefined {
+    if (!usage) {
+        return undefined;
+    }
+    return {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    };
+}
+
+async function streamCompletion(
+    client: OpenAI,
+    params: ChatCompletionCreateParamsNonStreaming,
+    signal?: AbortSignal,
+    printer = new StreamPrinter(),
+): Promise<CompletionResult | undefined> {
+    // include_usage adds a last chunk with no choices and the token counts
+    const stream = await client.chat.completions.create({ ...params, stream: true, stream_options: { include_usage: true } }, { signal });
+
+    let content = '';
+    let refusal = '';
+    let finishReason: string | null | undefined;
+    let receivedChoice = false;
+    let usage: TokenUsage | undefined;
+    const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+    try {
+        for await (const chunk of stream) {
+            usage = tokenUsage(chunk.usage) ?? usage;
+            const choice = chunk.choices[0];
+            if (!choice) {
+                continue;
+            }
+            receivedChoice = true;
+            const delta = choice.delta;
+
+            if (delta.content) {
+                content += delta.content;
+                printer.text(delta.content);
+            }
+            if (delta.refusal) {
+                refusal += delta.refusal;
+            }
+            for (const toolDelta of delta.tool_calls ?? []) {
+                let toolCall = toolCalls[toolDelta.index];
+                if (!toolCall) {
+                    toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } };
+                    toolCalls[toolDelta.index] = toolCall;
+                }
+                if (toolDelta.id) {
+                    toolCall.id = toolDelta.id;
+                }
+                // Names arrive whole; some backends repeat them on every delta
+                if (toolDelta.function?.name && !toolCall.function.name) {
+                    toolCall.function.name = toolDelta.function.name;
+                }
+                if (toolDelta.function?.arguments) {
+                    toolCall.function.arguments += toolDelta.function.arguments;
+                }
+                printer.toolProgress(toolCall.function.name, toolCall.function.arguments.length);
+            }
+            if (choice.finish_reason) {
+                finishReason = choice.finish_reason;
+            }
+        }
+    } finally {
+        printer.end();
+    }
+    if (!receivedChoice) {
+        return undefined;
+    }
+
+    const message: ChatCompletionMessage = {
+        role: 'assistant',
+        content: content || null,
+        refusal: refusal || null,
+    };
+    // Indices can have gaps if a backend skips one; keep only the calls we saw
+    const calls = toolCalls.filter(Boolean);
+    if (calls.length > 0) {
+        message.tool_calls = calls;
+    }
+    return { message, finishReason: normalizeStopReason(finishReason, message), rawFinishReason: finishReason ?? undefined, streamed: true, usage };
+}
+
+/**
+ * Ask the model for the next assistant message.
+ * Returns undefined when the response had no choices.
+ */
+export async function complete(
+    client: OpenAI,
+    params: ChatCompletionCreateParamsNonStreaming,
+    options: { stream: boolean; signal?: AbortSignal; printer?: StreamPrinter },
+): Promise<CompletionResult | undefined> {
+    if (options.stream) {
+        return streamCompletion(client, params, options.signal, options.printer);
+    }
+    const response = await client.chat.completions.create(params, { signal: options.signal });
+    const choice = response.choices[0];
+    if (!choice?.message) {
+        return undefined;
+    }
+    return {
+        message: choice.message,
+        finishReason: normalizeStopReason(choice.finish_reason, choice.message),
+        rawFinishReason: choice.finish_reason,
+        streamed: false,
+        usage: tokenUsage(response.usage),
+    };
+}
@@ -0,0 +1,174 @@
+/**
+ * core/subagent.ts
+ *
+ * The `task` tool: hand a self-contained job to a subagent.
+ *
+ * Exploring a codebase fills the history with file listings and search
+ * output the main conversation never needs again. A subagent does that work
+ * in its own context and hands back only its final summary:
+ *
+ *   main agent ── task(explore, "find where sessions are saved") ──┐
+ *                                                                   │
+ *                      subagent: fresh messages, filtered tools     │
+ *                        🔧 bash(grep -rn "save" core)              │
+ *                        🔧 read(core/session.ts)                   │
+ *                                                                   │
+ *   main agent <── "Session.save() in core/session.ts writes ..." ──┘
+ *
+ * The subagent runs in-process with the parent's provider, model, permissions
+ * and sandbox, but never sees the parent's history. Its role decides its tools:
+ *
+ *   | Role    | Tools                                     | Returns                |
+ *   |---------|-------------------------------------------|------------------------|
+ *   | explore | read-only (bash: read-only commands only) | findings               |
+ *   | plan    | read-only, like explore                   | an implementation plan |
+ *   | code    | everything the parent has                 | a summary of changes   |
+ *
+ * Subagents can't start subagents of their own, and don't touch the parent's todos.
+ */
+
+import { Agent, type LogLevel } from './agent';
+import { ToolRegistry, type Tool, type ToolContext } from './tools';
+
+export type SubagentRole = 'explore' | 'plan' | 'code';
+
+export const SUBAGENT_ROLES: Record<SubagentRole, { readOnly: boolean; instructions: string }> = {
+    explore: {
+        readOnly: true,
+        instructions: 'Find and read whatever answers the task. You cannot modify anything.',
+    },
+    plan: {
+        readOnly: true,
+        instructions: 'Study the relevant code, then write a step-by-step implementation plan: which files change, what changes in each, and the risks. Do not make changes.',
+    },
+    code: {
+        readOnly: false,
+        instructions: 'Implement the task. Make minimal changes and verify them (build, tests) where you can.',
+    },
+};
+
+// Parent-only tools: no nested subagents, no edits to the parent's todo list
+const PARENT_ONLY_TOOLS = new Set(['task', 'todoWrite']);
+
+const SUBAGENT_INDENT = '    ';
+
+/**
+ * Limit a tool whose readOnly depends on its arguments (bash) to the read-only calls.
+ */
+function readOnlyCalls(tool: Tool): Tool {
+    const isReadOnly = tool.readOnly as (args: Record<string, any>, context: ToolContext) => boolean;
+    return {
+        ...tool,
+        description: `${tool.description} Read-only commands only.`,
+        // The handler refuses everything else, so there is nothing to approve
+        readOnly: true,
+        async handler(args, context) {
+            if (!isReadOnly(args, context)) {
+                throw new Error(`${tool.name} is limited to read-only calls in this subagent`);
+            }
+            return tool.handler(args, context);
+        },
+    };
+}
+
+/**
+ * The parent's tools, filtered for a role.
+ */
+export function subagentTools(parent: ToolRegistry, role: SubagentRole): ToolRegistry {
+    const tools: Tool[] = [];
+    for (const tool of parent.list()) {
+        if (PARENT_ONLY_TOOLS.has(tool.name)) {
+            continue;
+        }
+        if (!SUBAGENT_ROLES[role].readOnly || tool.readOnly === true) {
+            tools.push(tool);
+        } else if (typeof tool.readOnly === 'function') {
+            tools.push(readOnlyCalls(tool));
+        }
+    }
+    return new ToolRegistry(tools);
+}
+
+function subagentPrompt(role: SubagentRole, workspaceDir: string): string {
+    return `You are a ${role} subagent at ${workspaceDir}, started by another agent for one task.
+${SUBAGENT_ROLES[role].instructions}
+
+Nobody reads your messages except the last one, and you cannot ask questions.
+When done, reply with a concise summary: it is all the calling agent will see.
+Include file paths and concrete details, not a narrative of what you did.
+`;
+}
+
+export function taskTool(): Tool<{ description: string; prompt: string; role: SubagentRole }> {
+    return {
+        name: 'task',
+        description: 'Run a subagent with a fresh context for a self-contained task and get back its final summary. ' +
+            'It does not see this conversation, so the prompt must include everything it needs. ' +
+            'Roles: explore (read-only searching and reading), plan (read-only, returns an implementation plan), code (full tools, makes changes).',
+        parameters: {
+            type: 'object',
+            properties: {
+                description: { type: 'string', description: 'Short description of the task (3-5 words)' },
+                prompt: { type: 'string', description: 'Complete instructions for the subagent' },
+                role: { type: 'string', enum: Object.keys(SUBAGENT_ROLES), description: 'explore, plan or code' },
+            },
+            required: ['description', 'prompt', 'role'],
+        },
+        // Its tool calls still go through the permission check one by one
+        readOnly: args => SUBAGENT_ROLES[args.role]?.readOnly ?? false,
+        preview: async args => `${args.role} subagent: ${args.description}\n\n${args.prompt}`,
+        async handler({ description, prompt, role }, context) {
+            const parent = context.agent;
+            if (!parent) {
+                throw new Error('task must be called by an agent');
+            }
+            if (!SUBAGENT_ROLES[role]) {
+                throw new Error(`Unknown role: ${role} (expected ${Object.keys(SUBAGENT_ROLES).join(', ')})`);
+            }
+
+            const buffered: { text: string; level: LogLevel }[] = [];
+            const subagent = new Agent({
+                provider: parent.provider,
+                fallbackModels: parent.fallbackModels,
+                maxRetries: parent.maxRetries,
+                usage: parent.usage,
+                // Blocked paths and formatters apply to its calls too
+                hooks: parent.hooks,
+                model: parent.model,
+                systemPrompt: subagentPrompt(role, context.workspaceDir),
+                // Project conventions apply to its work too
+                instructions: parent.instructions,
+                tools: subagentTools(parent.tools, role),
+                workspaceDir: context.workspaceDir,
+                permissions: parent.permissions,
+                sandbox: context.sandbox,
+                // Its changes are undone with the parent's turn
+                checkpoints: parent.checkpoints,
+                // Printed in one piece, indented under the parent's task call
+                stream: false,
+                indent: SUBAGENT_INDENT,
+                // Beside other calls (parallel explore/plan tasks) its lines wait, so runs don't interleave
+                print: context.concurrent ? (text, level) => buffered.push({ text, level }) : undefined,
+            });
+            // Not send(): its requests count toward the parent's turn, not a new one
+            subagent.messages.push({ role: 'user', content: prompt });
+            // Esc or Ctrl+C on the parent's task call stops the subagent too
+            const stop = () => subagent.interrupt();
+            context.signal?.addEventListener('abort', stop);
+            try {
+                await subagent.run();
+            } finally {
+                context.signal?.removeEventListener('abort', stop);
+                if (buffered.length > 0) {
+                    console.log(`${SUBAGENT_INDENT}── ${role} subagent: ${description}`);
+                    for (const { text, level } of buffered) {
+                        console[level](text);
+                    }
+                }
+            }
+            const summary = subagent.finalText();
+            const toolCalls = subagent.messages.filter(m => m.role === 'tool').length;
+            return `${summary || '(the subagent finished without a summary)'}\n\n[${role} subagent, ${toolCalls} tool calls]`;
+        },
+    };
+}
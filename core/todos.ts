@@ -0,0 +1,281 @@
+/**
+ * core/todos.ts
+ *
+ * TodoManager and the todoWrite tool (introduced in v2).
+ *
+ * Key Design Decisions:
+ * -----------------------
+ * 1. Max 20 items (limits.maxTodos): Prevents the model from creating endless lists
+ * 2. One in_progress: Forces focus - can only work on ONE thing at a time
+ * 3. Required fields: Each item needs content, status, and activeForm
+ * 4. Stable ids: "t1", "t2", ... assigned once and kept across updates, so
+ *    relations and the saved session can refer to them
+ * 5. Relations: parentId makes a sub-task, blockedBy lists todos that must be
+ *    completed first; a blocked todo can't go in_progress
+ *
+ * The activeForm field deserves explanation:
+ * - It's the PRESENT TENSE form of what's happening
+ * - Shown when status is "in_progress"
+ * - Example: content="Add tests", activeForm="Adding unit tests..."
+ *
+ * This gives real-time visibility into what the agent is doing: the REPL
+ * pins it to the bottom of the terminal (see status_line.ts).
+ *
+ * The list lives in the session, so a resumed session picks up its plan.
+ * render() draws sub-tasks under their parent:
+ *
+ *   [x] t1 Add the schema
+ *   [>] t2 Add the API handler
+ *       [ ] t3 Validate input
+ *   [ ] t4 Update the docs (blocked by t2)
+ */
+
+import type { Tool } from './tools';
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface Todo {
+    // Stable across updates: "t1", "t2", ...
+    id: string;
+    content: string;
+    status: TodoStatus;
+    activeForm: string;
+    // Makes this a sub-task of another todo
+    parentId?: string;
+    // Todos that must be completed before this one can start
+    blockedBy?: string[];
+}
+
+// What todoWrite sends: a todo without an id is new, or matched to an existing one by content
+export type TodoInput = Omit<Todo, 'id'> & { id?: string };
+
+const ID_PREFIX = 't';
+
+export class TodoManager {
+    private todos: Todo[] = [];
+    // limits.maxTodos in the config
+    readonly maxTodos: number;
+    // Next number for a new id; never reused within a list's lifetime
+    private nextId = 1;
+    private listeners: ((todos: Todo[]) => void)[] = [];
+
+    constructor(maxTodos = 20) {
+        this.todos = [];
+        this.maxTodos = maxTodos;
+    }
+
+    update(input: TodoInput[]) {
+        // check if todos is valid
+        if (input.some(todo => todo.status !== 'pending' && todo.status !== 'in_progress' && todo.status !== 'completed')) {
+            throw new Error('Invalid todo status');
+        }
+        if (input.some(todo => !todo.content)) {
+            throw new Error('Todo content is required');
+        }
+        if (input.some(todo => !todo.activeForm)) {
+            throw new Error('Todo activeForm is required');
+        }
+        if (input.length > this.maxTodos) {
+            throw new Error(`Too many todos (max ${this.maxTodos})`);
+        }
+        // check if there is only one in_progress todo
+        if (input.filter(todo => todo.status === 'in_progress').length > 1) {
+            throw new Error('Only one in_progress todo is allowed');
+        }
+        const todos = this.assignIds(input);
+        checkRelations(todos);
+        this.todos = todos;
+        this.nextId = Math.max(this.nextId, ...todos.map(todo => idNumber(todo.id) + 1));
+        this.changed();
+    }
+
+    list(): Todo[] {
+        return this.todos.map(todo => ({ ...todo }));
+    }
+
+    reset(): void {
+        this.todos = [];
+        this.nextId = 1;
+        this.changed();
+    }
+
+    /**
+     * Called with the new list after every update or reset; returns an unsubscribe function.
+     */
+    onChange(listener: (todos: Todo[]) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        };
+    }
+
+    /**
+     * The in_progress todo's activeForm and the progress so far, or '' when
+     * nothing is in progress.
+     */
+    status(): string {
+        const current = this.todos.find(todo => todo.status === 'in_progress');
+        if (!current) {
+            return '';
+        }
+        const completed = this.todos.filter(todo => todo.status === 'completed').length;
+        return `${current.activeForm} (${completed}/${this.todos.length} done)`;
+    }
+
+    render(): string {
+        if(this.todos.length === 0) {
+            return 'No todos';
+        }
+        const marks: Record<TodoStatus, string> = { in_progress: '[>]', completed: '[x]', pending: '[ ]' };
+        const byId = new Map(this.todos.map(todo => [todo.id, todo]));
+        let result: string[] = [];
+        const draw = (todo: Todo, depth: number) => {
+            const waitingOn = (todo.blockedBy ?? []).filter(id => byId.get(id)?.status !== 'completed');
+            const blocked = todo.status === 'pending' && waitingOn.length > 0 ? ` (blocked by ${waitingOn.join(', ')})` : '';
+            result.push(`${'    '.repeat(depth)}${marks[todo.status]} ${todo.id} ${todo.content}${blocked}`);
+            for (const child of this.todos.filter(other => other.parentId === todo.id)) {
+                draw(child, depth + 1);
+            }
+        };
+        for (const todo of this.todos.filter(todo => !todo.parentId)) {
+            draw(todo, 0);
+        }
+        result.push(`Total: ${this.todos.length}, Completed: ${this.todos.filter(todo => todo.status === 'completed').length}`);
+        return result.join('\n');
+    }
+
+    /**
+     * Keep the ids the model sent; give the rest the id of the existing todo
+     * with the same content, or a new one.
+     */
+    private assignIds(input: TodoInput[]): Todo[] {
+        const taken = new Set<string>();
+        for (const todo of input) {
+            if (todo.id !== undefined) {
+                if (taken.has(todo.id)) {
+                    throw new Error(`Duplicate todo id: ${todo.id}`);
+                }
+                taken.add(todo.id);
+            }
+        }
+        let next = Math.max(this.nextId, ...input.map(todo => idNumber(todo.id) + 1));
+        return input.map(todo => {
+            let id = todo.id;
+            if (id === undefined) {
+                id = this.todos.find(existing => existing.content === todo.content && !taken.has(existing.id))?.id ?? `${ID_PREFIX}${next++}`;
+                taken.add(id);
+            }
+            const result: Todo = { id, content: todo.content, status: todo.status, activeForm: todo.activeForm };
+            if (todo.parentId) {
+                result.parentId = todo.parentId;
+            }
+            if (todo.blockedBy && todo.blockedBy.length > 0) {
+                result.blockedBy = [...todo.blockedBy];
+            }
+            return result;
+        });
+    }
+
+    private changed(): void {
+        for (const listener of this.listeners) {
+            listener(this.list());
+        }
+    }
+}
+
+// 7 for "t7"; 0 for ids the model made up
+function idNumber(id: string | undefined): number {
+    const match = id?.match(/^t(\d+)$/);
+    return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Parents and blockers must be other todos in the list, without cycles, and
+ * an in_progress todo's blockers must be completed.
+ */
+function checkRelations(todos: Todo[]): void {
+    const byId = new Map(todos.map(todo => [todo.id, todo]));
+    for (const todo of todos) {
+        for (const related of [todo.parentId, ...(todo.blockedBy ?? [])]) {
+            if (related === undefined) {
+                continue;
+            }
+            if (related === todo.id) {
+                throw new Error(`Todo ${todo.id} can't refer to itself`);
+            }
+            if (!byId.has(related)) {
+                throw new Error(`Todo ${todo.id} refers to unknown todo ${related}`);
+            }
+        }
+        if (todo.status === 'in_progress') {
+            const pending = (todo.blockedBy ?? []).filter(id => byId.get(id)!.status !== 'completed');
+            if (pending.length > 0) {
+                throw new Error(`Todo ${todo.id} can't be in_progress: blocked by ${pending.join(', ')} (not completed)`);
+            }
+        }
+    }
+    checkAcyclic(todos, todo => todo.parentId === undefined ? [] : [todo.parentId], id => `Todo ${id} is its own ancestor`);
+    checkAcyclic(todos, todo => todo.blockedBy ?? [], id => `Todo ${id} is part of a blockedBy cycle`);
+}
+
+/**
+ * Depth-first over the edges from each todo; reaching a todo that is still
+ * being visited closes a cycle.
+ */
+function checkAcyclic(todos: Todo[], edges: (todo: Todo) => string[], message: (id: string) => string): void {
+    const byId = new Map(todos.map(todo => [todo.id, todo]));
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const visit = (id: string) => {
+        if (done.has(id)) {
+            return;
+        }
+        if (visiting.has(id)) {
+            throw new Error(message(id));
+        }
+        visiting.add(id);
+        for (const next of edges(byId.get(id)!)) {
+            visit(next);
+        }
+        visiting.delete(id);
+        done.add(id);
+    };
+    todos.forEach(todo => visit(todo.id));
+}
+
+export function todoWriteTool(manager: TodoManager): Tool<{ todos: TodoInput[] }> {
+    return {
+        name: 'todoWrite',
+        description: 'Replace the todo list with this one; send the whole list every time. ' +
+            'Keep each todo\'s id (new todos get one: t1, t2, ...). parentId makes a sub-task; ' +
+            'blockedBy lists todos that must be completed before this one can be in_progress.',
+        parameters: {
+            type: 'object',
+            properties: {
+                todos: {
+                    type: 'array',
+                    description: 'The complete todo list',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string', description: 'The todo\'s id from the last list; omit for a new todo' },
+                            content: { type: 'string', description: 'The content of the todo' },
+                            status: { type: 'string', enum: ['pending', 'in_progress', 'completed'], description: 'The status of the todo' },
+                            activeForm: { type: 'string', description: 'The active form of the todo' },
+                            parentId: { type: 'string', description: 'Id of the todo this is a sub-task of (optional)' },
+                            blockedBy: { type: 'array', items: { type: 'string' }, description: 'Ids of todos to complete first (optional)' } },
+                        required: ['content', 'status', 'activeForm']
+                    },
+                    minItems: 1,
+                    maxItems: manager.maxTodos,
+                }
+            },
+            required: ['todos'],
+        },
+        readOnly: true,
+        async handler({ todos }) {
+            manager.update(todos);
+            return manager.render();
+        },
+    };
+}
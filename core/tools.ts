@@ -0,0 +1,124 @@
+/**
+ * core/tools.ts
+ *
+ * Tool registry.
+ *
+ * A tool is everything the agent loop needs to know about one capability:
+ *
+ *   name + description + parameters  -> the JSON schema the model sees
+ *   handler                          -> what runs when the model calls it
+ *   readOnly / destructive           -> what the permission layer needs
+ *   preview                          -> what the user sees before approving
+ *   touches                          -> which files to checkpoint first
+ *
+ * The loop never switches on tool names. Adding a tool means registering
+ * one object; nothing else changes.
+ */
+
+import type { ChatCompletionTool, FunctionParameters } from 'openai/resources';
+import type { Agent } from './agent';
+import type { Sandbox } from './sandbox';
+
+export interface ToolContext {
+    // Root the file tools are confined to
+    workspaceDir: string;
+    // When set, bash runs inside it
+    sandbox?: Sandbox;
+    // Aborted when the user presses Ctrl+C or Esc during the tool call
+    signal?: AbortSignal;
+    // The agent making the call (the task tool builds its subagent from it)
+    agent?: Agent;
+    // Other calls run at the same time: print in one piece when done, not line by line
+    concurrent?: boolean;
+}
+
+export interface ToolImage {
+    mimeType: string;
+    // Base64-encoded file content
+    data: string;
+}
+
+/**
+ * A result with more than text. Images follow the tool messages as image
+ * content parts, since tool messages can only carry text.
+ */
+export interface ToolOutput {
+    text: string;
+    images?: ToolImage[];
+}
+
+export interface Tool<Args = Record<string, any>> {
+    name: string;
+    description: string;
+    parameters: FunctionParameters;
+    handler: (args: Args, context: ToolContext) => Promise<string | ToolOutput>;
+    // Never changes anything. A function lets bash decide per command.
+    readOnly?: boolean | ((args: Args, context: ToolContext) => boolean);
+    // Can delete or overwrite data
+    destructive?: boolean;
+    // Shown in the approval prompt: the exact command, a diff, ...
+    preview?: (args: Args, context: ToolContext) => Promise<string>;
+    // Absolute paths of the files the call may change, snapshotted first for /undo
+    touches?: (args: Args, context: ToolContext) => string[];
+}
+
+export class ToolRegistry {
+    private tools = new Map<string, Tool>();
+
+    constructor(tools: Tool<any>[] = []) {
+        for (const tool of tools) {
+            this.register(tool);
+        }
+    }
+
+    register(tool: Tool<any>): this {
+        if (this.tools.has(tool.name)) {
+            throw new Error(`Tool already registered: ${tool.name}`);
+        }
+        this.tools.set(tool.name, tool);
+        return this;
+    }
+
+    unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    get(name: string): Tool | undefined {
+        return this.tools.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    list(): Tool[] {
+        return [...this.tools.values()];
+    }
+
+    /**
+     * Tool definitions in the shape the chat completions API expects.
+     */
+    schemas(): ChatCompletionTool[] {
+        return this.list().map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            },
+        }));
+    }
+
+    isReadOnly(name: string, args: Record<string, any>, context: ToolContext): boolean {
+        const readOnly = this.get(name)?.readOnly;
+        return typeof readOnly === 'function' ? readOnly(args, context) : Boolean(readOnly);
+    }
+
+    async execute(name: string, args: Record<string, any>, context: ToolContext): Promise<string | ToolOutput> {
+        const tool = this.get(name);
+        if (!tool) {
+            throw new Error(`Unknown command: ${name}`);
+        }
+        return await tool.handler(args, context);
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * core/usage.ts
+ *
+ * What a session used and cost. Every model request records its token
+ * counts, tagged with the user turn and the tool round inside that turn:
+ *
+ *   turn 1  round 1  gpt-4o  in 2,104 (cached 0)      out 88   $0.0061
+ *   turn 1  round 2  gpt-4o  in 3,377 (cached 2,048)  out 312  $0.0082
+ *
+ * Cost comes from a price table in dollars per million tokens, matched by
+ * model prefix (longest wins). `prices` in the config adds or overrides
+ * entries; models without a price count tokens but no dollars.
+ *
+ * Budgets (limits.maxTokens, limits.maxCostUsd) cover the current run,
+ * subagents included. The agent checks them after every request and stops
+ * the loop cleanly once one is used up.
+ */
+
+// Token counts for one request, normalized across providers
+export interface TokenUsage {
+    // All prompt tokens, cached ones included
+    inputTokens: number;
+    outputTokens: number;
+    // Prompt tokens served from the provider's cache (billed lower)
+    cachedTokens: number;
+}
+
+export interface ModelPrice {
+    // Dollars per million tokens
+    input: number;
+    output: number;
+    // Defaults to the input price
+    cachedInput?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Public list prices, per million tokens
+export const DEFAULT_PRICES: PriceTable = {
+    'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+    'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+    'o3': { input: 2, output: 8, cachedInput: 0.5 },
+    'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+    'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+    'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-haiku-4': { input: 1, output: 5, cachedInput: 0.1 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+};
+
+export interface UsageRecord extends TokenUsage {
+    model: string;
+    // 1-based user turn of the session, and request number inside it
+    turn: number;
+    round: number;
+    // Undefined when the model has no price
+    cost?: number;
+}
+
+export interface Budget {
+    maxTokens?: number;
+    maxCostUsd?: number;
+}
+
+export function priceFor(model: string, prices: PriceTable = DEFAULT_PRICES): ModelPrice | undefined {
+    const name = model.toLowerCase().split('/').pop() ?? '';
+    const prefix = Object.keys(prices)
+        .filter(key => name.startsWith(key.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+}
+
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+    const cached = Math.min(usage.cachedTokens, usage.inputTokens);
+    return ((usage.inputTokens - cached) * price.input
+        + cached * (price.cachedInput ?? price.input)
+        + usage.outputTokens * price.output) / 1_000_000;
+}
+
+function formatTokens(n: number): string {
+    return n.toLocaleString('en-US');
+}
+
+export function formatCost(cost: number | undefined): string {
+    if (cost === undefined) {
+        return '$?';
+    }
+    if (cost > 0 && cost < 0.0001) {
+        return '<$0.0001';
+    }
+    return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+interface Totals extends TokenUsage {
+    requests: number;
+    cost: number;
+    // True when some request had no price, so cost is a lower bound
+    unpriced: boolean;
+}
+
+function total(records: UsageRecord[]): Totals {
+    const totals: Totals = { requests: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0, cost: 0, unpriced: false };
+    for (const record of records) {
+        totals.requests++;
+        totals.inputTokens += record.inputTokens;
+        totals.outputTokens += record.outputTokens;
+        totals.cachedTokens += record.cachedTokens;
+        if (record.cost === undefined) {
+            totals.unpriced = true;
+        } else {
+            totals.cost += record.cost;
+        }
+    }
+    return totals;
+}
+
+function describe(totals: Totals): string {
+    const cost = totals.requests > 0 && totals.unpriced && totals.cost === 0 ? '$? (no price)' : `${formatCost(totals.cost)}${totals.unpriced ? '+' : ''}`;
+    return `in ${formatTokens(totals.inputTokens)} (cached ${formatTokens(totals.cachedTokens)}), out ${formatTokens(totals.outputTokens)}, ${cost}`;
+}
+
+export class UsageTracker {
+    private entries: UsageRecord[] = [];
+    // Records before this index came from a resumed session, not this run
+    private runStart = 0;
+    private turn = 0;
+    private round = 0;
+    private prices: PriceTable;
+    readonly budget: Budget;
+
+    constructor(options: { prices?: PriceTable; budget?: Budget } = {}) {
+        this.prices = { ...DEFAULT_PRICES, ...options.prices };
+        this.budget = options.budget ?? {};
+    }
+
+    /**
+     * Continue a saved session's accounting. Budgets still only count this run.
+     */
+    restore(records: UsageRecord[]): void {
+        this.entries = [...records];
+        this.runStart = this.entries.length;
+        this.turn = Math.max(0, ...records.map(record => record.turn));
+    }
+
+    beginTurn(): void {
+        this.turn++;
+        this.round = 0;
+    }
+
+    record(model: string, usage: TokenUsage): UsageRecord {
+        const price = priceFor(model, this.prices);
+        const record: UsageRecord = {
+            model,
+            turn: Math.max(this.turn, 1),
+            round: ++this.round,
+            ...usage,
+            cost: price ? costOf(usage, price) : undefined,
+        };
+        this.entries.push(record);
+        return record;
+    }
+
+    records(): UsageRecord[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Which budget this run has used up, if any, as a sentence.
+     */
+    exceeded(): string | undefined {
+        const run = total(this.entries.slice(this.runStart));
+        const tokens = run.inputTokens + run.outputTokens;
+        if (this.budget.maxTokens !== undefined && tokens >= this.budget.maxTokens) {
+            return `token budget used up: ${formatTokens(tokens)} of ${formatTokens(this.budget.maxTokens)} tokens`;
+        }
+        if (this.budget.maxCostUsd !== undefined && run.cost >= this.budget.maxCostUsd) {
+            return `cost budget used up: ${formatCost(run.cost)} of ${formatCost(this.budget.maxCostUsd)}`;
+        }
+        return undefined;
+    }
+
+    /**
+     * The /cost summary: totals, per model, and the last turn round by round.
+     */
+    render(): string {
+        if (this.entries.length === 0) {
+            return 'No model requests yet';
+        }
+        const lines = [`Session: ${this.entries.length} request(s), ${describe(total(this.entries))}`];
+        if (this.runStart > 0) {
+            lines.push(`This run: ${describe(total(this.entries.slice(this.runStart)))}`);
+        }
+        const budget = [
+            this.budget.maxTokens !== undefined ? `${formatTokens(this.budget.maxTokens)} tokens` : '',
+            this.budget.maxCostUsd !== undefined ? formatCost(this.budget.maxCostUsd) : '',
+        ].filter(Boolean);
+        if (budget.length > 0) {
+            lines.push(`Budget: ${budget.join(', ')}`);
+        }
+
+        const models = [...new Set(this.entries.map(record => record.model))];
+        if (models.length > 1) {
+            lines.push('', 'By model:');
+            for (const model of models) {
+                lines.push(`  ${model}: ${describe(total(this.entries.filter(record => record.model === model)))}`);
+            }
+        }
+
+        const lastTurn = this.entries[this.entries.length - 1]!.turn;
+        const rounds = this.entries.filter(record => record.turn === lastTurn);
+        lines.push('', `Last turn (${lastTurn}), by round:`);
+        for (const record of rounds) {
+            lines.push(`  ${String(record.round).padStart(2)}. ${record.model}: ${describe(total([record]))}`);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * One line for the end of a session.
+     */
+    report(): string {
+        const run = total(this.entries.slice(this.runStart));
+        return `💰 ${run.requests} request(s): ${describe(run)}`;
+    }
+}
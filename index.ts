@@ -1 +1 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+export * from './core';
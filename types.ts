@@ -1,7 +1,19 @@
 declare module "bun" {
     interface Env {
-        API_KEY: string;
-        BASE_URL: string;
-        AI_MODEL: string;
+        API_KEY?: string;
+        BASE_URL?: string;
+        AI_MODEL?: string;
+        AI_PROVIDER?: string;
+        AI_FALLBACK_MODELS?: string;
+        ANTHROPIC_API_KEY?: string;
+        ANTHROPIC_BASE_URL?: string;
+        OLLAMA_HOST?: string;
+        PERMISSION_MODE?: string;
+        PERMISSION_ALLOW?: string;
+        SESSION_DIR?: string;
+        STREAM?: string;
+        MODEL_CONTEXT_WINDOWS?: string;
+        SANDBOX?: string;
+        VISION?: string;
     }
-}
\ No newline at end of file
+}
@@ -16,196 +16,126 @@
  * 
  * Usage:
  *  - Interactive: bun v0_bash_agent.ts
- *  - Subagent: bun v0_bash_agent.ts "task description"
+ *  - One-shot: bun v0_bash_agent.ts "task description"
+ *  - Subagent: bun v0_bash_agent.ts --output-format json "task description" 2>/dev/null
+ *    prints one JSON object; its "result" is the subagent's final answer
  */
 
-// Import OpenAI SDK for chat completion API
-import OpenAI from 'openai';
-// Import TypeScript types for chat completion messages and tools
-import type { ChatCompletionMessageFunctionToolCall, ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources';
-// Import Bun's shell execution utilities
-import { $ } from 'bun';
-
-// Initialize OpenAI client with environment configuration
-const client = new OpenAI({
-  apiKey: process.env.API_KEY,    // API key for authentication
-  baseURL: process.env.BASE_URL,  // Base URL for API endpoint
-});
+// Import the shared agent loop and tool registry
+import { Agent } from './core/agent';
+import { exitOnConfigError, parseCliArgs, readPromptFromStdin, type CliOptions } from './core/cli';
+import { loadConfig, providerFromConfig, usageFromConfig, type AgentConfig } from './core/config';
+import { loadInstructions } from './core/instructions';
+// One-shot runs with JSON output for parents and scripts
+import { runOneShot, sendProgressToStderr } from './core/output';
+import { ToolRegistry, type Tool } from './core/tools';
+// Import the shell runner (timeouts, output caps, Ctrl+C)
+import { DEFAULT_TIMEOUT_MS, formatShellResult, runShell } from './core/shell';
 
 // System prompt that defines the agent's behavior and capabilities
-const systemPrompt = `You are a CLI agent at ${process.cwd()}. Solve problems using bash commands.` +
+const systemPrompt = (workspaceDir: string) => `You are a CLI agent at ${workspaceDir}. Solve problems using bash commands.` +
 `Rules:
 - Prefer tools over prose. Act first, explain briefly after.
 - Read files: cat/head/tail, grep/find/rg/ls, wc -l
 - Write files: echo 'content' > file, sed -i, or cat << 'EOF' > file
 - Subagent: For complex subtasks, spawn a subagent to keep context clean:
-  bun v0_bash_agent.ts "explore src/ and summarize the architecture"
+  bun v0_bash_agent.ts --output-format json "explore src/ and summarize the architecture" 2>/dev/null | jq -r .result
 
 When to use subagent:
 - Task requires reading many files (isolate the exploration)
 - Task is independent and self-contained
 - You want to avoid polluting current conversation with intermediate details
 
-The subagent runs in isolation and returns only its final summary.
+The subagent runs in isolation and prints one JSON object: "result" is its final
+answer, "isError" and "status" say whether it finished.
 `;
 
-// Define available tools for the AI agent to use
-const tools: ChatCompletionTool[] = [
-    {
-        type: 'function',
-        function: {
-            name: 'bash',
-            // Description of the bash tool with common usage patterns
-            description: `Execute shell command. Common patterns:
+/**
+ * The one and only tool: execute a shell command.
+ * Non-zero exits, timeouts and Ctrl+C come back as text (not thrown) so the agent sees them like any other output.
+ */
+const bashTool: Tool<{ command: string; timeout?: number }> = {
+    name: 'bash',
+    // Description of the bash tool with common usage patterns
+    description: `Execute shell command. Common patterns:
                 - Read: cat/head/tail, grep/find/rg/ls, wc -l
                 - Write: echo 'content' > file, sed -i 's/old/new/g' file
-                - Subagent: bun v0_bash_agent.ts 'task description' (spawns isolated agent, returns summary)`,
-            // Schema defining the tool's parameters
-            parameters: {
-                type: 'object',
-                properties: {
-                    command: { type: 'string', description: 'The bash command to execute' },
-                },
-                required: ['command'],  // Command is required for tool to work
-            },
-        }
+                - Subagent: bun v0_bash_agent.ts --output-format json 'task description' 2>/dev/null | jq -r .result (spawns isolated agent, returns its answer; pass timeout: 600)
+                Commands are killed after ${DEFAULT_TIMEOUT_MS / 1000}s unless a longer timeout is given.`,
+    // Schema defining the tool's parameters
+    parameters: {
+        type: 'object',
+        properties: {
+            command: { type: 'string', description: 'The bash command to execute' },
+            timeout: { type: 'number', description: 'Timeout in seconds (optional, max 600)' },
+        },
+        required: ['command'],  // Command is required for tool to work
     },
-];
+    destructive: true,
+    async handler({ command, timeout }, context) {
+        // Capture stdout and stderr separately, with a timeout and capped output
+        const result = await runShell(command, {
+            cwd: context.workspaceDir,
+            timeoutMs: timeout !== undefined ? timeout * 1000 : undefined,
+            signal: context.signal,
+        });
+        return formatShellResult(result);
+    },
+};
 
-/**
- * Execute a shell command using Bun's shell utilities
- * @param command - The bash command to execute
- * @returns Command output (stdout or stderr) as a string
- */
-async function executeCommand(command: string): Promise<string> {
-    try {
-        // Execute command quietly (suppress output during execution)
-        const result = await $`bash -c ${command}`.quiet();
-        // Return stdout, fall back to stderr, or empty string if neither
-        return result.stdout.toString() || result.stderr.toString() || '';
-    } catch (error: any) {
-        // Return error message for the agent to handle
-        return `Error: ${error.message}\n${error.stderr?.toString() || ''}`;
+// --output-format, --max-turns, --model, ... (see core/cli.ts)
+let cli: CliOptions;
+// Provider, model and endpoint from env, the settings files and flags (see core/config.ts)
+let config: AgentConfig;
+try {
+    cli = parseCliArgs(process.argv.slice(2));
+    // Before anything logs: in the JSON formats stdout is for JSON only
+    if (cli.outputFormat !== 'text') {
+        sendProgressToStderr();
     }
+    ({ config } = await loadConfig({
+        model: cli.model,
+        cwd: cli.cwd,
+        config: cli.config,
+        maxTokens: cli.maxTokens,
+        maxCostUsd: cli.maxCostUsd,
+        maxTurns: cli.maxTurns,
+    }));
+} catch (error) {
+    // A bad flag or settings file: one line, exit status 1
+    exitOnConfigError(error);
+    process.exit();
 }
 
-/**
- * Main chat loop that handles conversation with the AI agent
- * Processes messages, tool calls, and generates responses
- * @param prompt - Initial user prompt
- * @param history - Previous conversation messages (for continuity)
- * @returns Complete message history after the conversation
- */
-async function chat(prompt: string, history: ChatCompletionMessageParam[] = []): Promise<ChatCompletionMessageParam[]> {
-    // Build messages array with system prompt, history, and current prompt
-    const messages: ChatCompletionMessageParam[] = [
-        { role: 'system', content: systemPrompt },
-        ...history,
-        { role: 'user', content: prompt },
-    ];
-
-    // Infinite loop for continuous conversation
-    while (true) {
-        try {
-            // Call OpenAI API for chat completion
-            const response = await client.chat.completions.create({
-                model: process.env.AI_MODEL,     // Model to use (e.g., gpt-4)
-                messages: messages,              // Conversation history
-                tools: tools,                    // Available tools
-                tool_choice: 'auto',             // Let model decide when to use tools
-            });
-
-            const choice = response.choices[0];
-            const finishReason = choice?.finish_reason;  // Why chat completion ended
-            const assistantMessage = choice?.message;
-            
-            if (!assistantMessage) {
-                // No message in response, break loop
-                break;
-            }
-
-            // Add assistant's message to conversation history
-            messages.push(assistantMessage);
-
-            // Handle different finish reasons to determine next action
-            if (finishReason === 'tool_calls') {
-                // Model wants to call tools, process them
-                if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-                    // Process all tool calls in sequence
-                    for (const toolCall of assistantMessage.tool_calls) {
-                        const functionToolCall = toolCall as ChatCompletionMessageFunctionToolCall;
-                        if (functionToolCall.function.name === 'bash') {
-                            // Parse JSON arguments from tool call
-                            const args = JSON.parse(functionToolCall.function.arguments);
-                            const command = args.command;
-                            
-                            // Execute command and display output
-                            console.log(`\n🔧 Executing: ${command}\n`);
-                            const result = await executeCommand(command);
-                            console.log(result);
-                            
-                            // Add tool response back to conversation
-                            messages.push({
-                                role: 'tool',
-                                content: result,
-                                tool_call_id: functionToolCall.id,  // Link to original tool call
-                            });
-                        }
-                    }
-                    // Continue loop to get next response after tool execution
-                    continue;
-                }
-            } else if (finishReason === 'stop') {
-                // Model finished normally with a complete response
-                break;
-            } else if (finishReason === 'length') {
-                // Hit token limit, warn and break
-                console.warn('⚠️  Response truncated due to length limit');
-                break;
-            } else if (finishReason === 'content_filter') {
-                // Content was filtered by safety policies
-                console.warn('⚠️  Response filtered by content policy');
-                break;
-            } else {
-                // Unknown finish reason, log and break to avoid infinite loop
-                console.warn(`⚠️  Unknown finish_reason: ${finishReason}`);
-                break;
-            }
-        } catch (error: any) {
-            // Handle errors gracefully
-            console.error('Error in chat loop:', error);
-            messages.push({
-                role: 'assistant',
-                content: `Error: ${error.message}`,
-            });
-            break;
-        }
-    }
-    
-    return messages;
-}
+// The agent: system prompt + bash, nothing else
+const agent = new Agent({
+    provider: providerFromConfig(config),
+    model: config.model,     // Model to use (e.g., gpt-4)
+    fallbackModels: config.fallbackModels,
+    maxRetries: config.limits.maxRetries,
+    // Token and cost accounting for /cost; limits.maxTokens / maxCostUsd stop the loop
+    usage: usageFromConfig(config),
+    // limits.maxTurns / --max-turns: model requests per prompt
+    maxTurns: config.limits.maxTurns,
+    systemPrompt: systemPrompt(config.workspaceDir),
+    workspaceDir: config.workspaceDir,
+    // AGENTS.md / CLAUDE.md / .cursor/rules, appended to the system prompt
+    instructions: await loadInstructions(config.workspaceDir),
+    tools: new ToolRegistry([bashTool]),
+});
 
 /**
  * Main entry point of the application
  * Determines whether to run in interactive mode or subagent mode
  */
 async function main() {
-    // Get command-line arguments (skip first two which are script path and 'node')
-    const args = process.argv.slice(2);
-    
-    if (args.length > 0) {
+    // A prompt piped in (`echo "list the files" | bun v0_bash_agent.ts`) counts as an argument
+    const task = cli.prompt || await readPromptFromStdin();
+    if (task) {
         // === Subagent Mode ===
-        // Execute the task and return only the final summary
-        const task = args.join(' ');
+        // Execute the task; with --output-format json the parent gets one result object
         console.log(`\n🤖 Subagent task: ${task}\n`);
-        const messages = await chat(task);
-        
-        // Extract and display final assistant message
-        const finalMessage = messages[messages.length - 1];
-        if (finalMessage && finalMessage.role === 'assistant' && finalMessage.content) {
-            console.log('\n📋 Summary:');
-            console.log(finalMessage.content);
-        }
+        process.exitCode = await runOneShot(agent, task, cli.outputFormat);
     } else {
         // === Interactive Mode ===
         // Prompt user for input interactively
@@ -218,7 +148,7 @@ async function main() {
             },
         ]);
         
-        await chat(prompt);
+        await agent.send(prompt);
     }
 }
 